@@ -0,0 +1,149 @@
+import fs from 'fs';
+import jwt, { Algorithm, JwtPayload } from 'jsonwebtoken';
+import * as dotenv from 'dotenv';
+import { IncomingMessage } from 'http';
+import { AuthClaims, ErrorCode } from './types';
+
+dotenv.config();
+
+// Raised for any token that cannot be accepted; `code` is sent back to the client
+export class AuthError extends Error {
+    constructor(public readonly code: ErrorCode, message: string) {
+        super(message);
+        this.name = 'AuthError';
+    }
+}
+
+// Resolves the key used to verify a token, based on the algorithm in its header
+export interface KeySource {
+    getVerificationKey(algorithm: Algorithm): jwt.Secret | null;
+}
+
+// Anything that can turn a bearer token into verified claims
+export interface Authenticator {
+    authenticate(token: string): Promise<AuthClaims>;
+}
+
+export interface LocalKeySourceOptions {
+    hmacSecret?: string; // Shared secret for HS256/HS384/HS512
+    publicKey?:  string; // PEM encoded public key for RS256/RS384/RS512
+}
+
+const HMAC_ALGORITHMS: Algorithm[] = ['HS256', 'HS384', 'HS512'];
+const RSA_ALGORITHMS: Algorithm[]  = ['RS256', 'RS384', 'RS512'];
+
+/**
+ * Key source backed by keys held in process memory (config, env or test fixtures).
+ * No external identity provider is involved.
+ * @param options The HMAC secret and/or RSA public key to verify with.
+ */
+export function createLocalKeySource(options: LocalKeySourceOptions): KeySource {
+    return {
+        getVerificationKey(algorithm: Algorithm): jwt.Secret | null {
+            if (HMAC_ALGORITHMS.includes(algorithm)) return options.hmacSecret || null;
+            if (RSA_ALGORITHMS.includes(algorithm))  return options.publicKey || null;
+            return null;
+        }
+    };
+}
+
+/**
+ * Builds a local key source from JWT_SECRET and JWT_PUBLIC_KEY / JWT_PUBLIC_KEY_FILE.
+ */
+export function createKeySourceFromEnv(): KeySource {
+    const publicKeyFile = process.env.JWT_PUBLIC_KEY_FILE;
+    const publicKey     = publicKeyFile ? fs.readFileSync(publicKeyFile, 'utf8') : process.env.JWT_PUBLIC_KEY;
+    return createLocalKeySource({ hmacSecret: process.env.JWT_SECRET, publicKey });
+}
+
+export interface JwtAuthenticatorOptions {
+    issuer?:             string;
+    audience?:           string;
+    userIdClaim?:        string; // Claim holding the user ID, defaults to `sub`
+    clockToleranceSec?:  number;
+}
+
+/**
+ * Authenticator verifying signed JWTs against the given key source.
+ * @param keySource Where verification keys come from.
+ * @param options Extra claim checks applied to every token.
+ */
+export function createJwtAuthenticator(keySource: KeySource, options: JwtAuthenticatorOptions = {}): Authenticator {
+    const userIdClaim = options.userIdClaim || 'sub';
+
+    return {
+        async authenticate(token: string): Promise<AuthClaims> {
+            const decoded = jwt.decode(token, { complete: true });
+            if (!decoded || typeof decoded.payload === 'string') {
+                throw new AuthError(ErrorCode.TokenInvalid, 'Token is malformed');
+            }
+
+            const algorithm = decoded.header.alg as Algorithm;
+            const key = keySource.getVerificationKey(algorithm);
+            if (!key) {
+                throw new AuthError(ErrorCode.TokenInvalid, `Unsupported token algorithm: ${algorithm}`);
+            }
+
+            let payload: JwtPayload;
+            try {
+                payload = jwt.verify(token, key, {
+                    algorithms:     [algorithm],
+                    issuer:         options.issuer,
+                    audience:       options.audience,
+                    clockTolerance: options.clockToleranceSec
+                }) as JwtPayload;
+            } catch (err) {
+                if (err instanceof jwt.TokenExpiredError) {
+                    throw new AuthError(ErrorCode.TokenExpired, 'Token has expired');
+                }
+                throw new AuthError(ErrorCode.TokenInvalid, `Token verification failed: ${(err as Error).message}`);
+            }
+
+            const userId = payload[userIdClaim];
+            if (!userId || typeof userId !== 'string' || userId.trim() === '') {
+                throw new AuthError(ErrorCode.TokenInvalid, `Token has no valid "${userIdClaim}" claim`);
+            }
+            // Connections are closed when their token expires, so a token without expiry would keep one open forever
+            if (typeof payload.exp !== 'number') {
+                throw new AuthError(ErrorCode.TokenInvalid, 'Token has no "exp" claim');
+            }
+
+            return {
+                userId,
+                expiresAt: payload.exp * 1000
+            };
+        }
+    };
+}
+
+/**
+ * Signs a token with a local HMAC secret. Meant for tests and local development only.
+ * @param userId The user ID to put in the `sub` claim.
+ * @param secret The shared secret the server verifies with.
+ * @param expiresInSec Token lifetime in seconds.
+ */
+export function signLocalToken(userId: string, secret: string, expiresInSec = 3600): string {
+    return jwt.sign({}, secret, { algorithm: 'HS256', subject: userId, expiresIn: expiresInSec });
+}
+
+/**
+ * Extracts a bearer token from the HTTP upgrade request, either from the
+ * Authorization header or from the `token` query parameter (browsers cannot set headers).
+ * @param req The HTTP upgrade request.
+ */
+export function extractUpgradeToken(req: IncomingMessage): string | null {
+    const header = req.headers['authorization'];
+    if (header && header.startsWith('Bearer ')) {
+        return header.slice('Bearer '.length).trim() || null;
+    }
+    const url = new URL(req.url || '/', 'http://localhost');
+    return url.searchParams.get('token');
+}
+
+// Default authenticator used by the server, configured from the environment
+export const authenticator: Authenticator = createJwtAuthenticator(createKeySourceFromEnv(), {
+    issuer:            process.env.JWT_ISSUER || undefined,
+    audience:          process.env.JWT_AUDIENCE || undefined,
+    userIdClaim:       process.env.JWT_USER_ID_CLAIM || undefined,
+    clockToleranceSec: parseInt(process.env.JWT_CLOCK_TOLERANCE_SEC || '0', 10)
+});
@@ -0,0 +1,67 @@
+import * as dotenv from 'dotenv';
+import { CallHistoryEntry, CallHistoryPayload } from './types';
+import { Storage, CallRecord, CallHistoryCursor } from './storage';
+
+dotenv.config();
+
+// How long call records are kept (default 90 days)
+export const CALL_HISTORY_RETENTION_DAYS = parseInt(process.env.CALL_HISTORY_RETENTION_DAYS || '90', 10);
+const DEFAULT_PAGE_SIZE = 20;
+
+// Cursors are opaque to clients: base64url of "<startedAt epoch ms>:<callId>"
+function encodeCursor(record: CallRecord): string {
+    return Buffer.from(`${record.startedAt.getTime()}:${record.callId}`).toString('base64url');
+}
+
+function decodeCursor(cursor: string): CallHistoryCursor | null {
+    const decoded = Buffer.from(cursor, 'base64url').toString();
+    const separator = decoded.indexOf(':');
+    const startedAt = Number(decoded.slice(0, separator));
+    const callId = decoded.slice(separator + 1);
+    if (separator <= 0 || !Number.isSafeInteger(startedAt) || callId === '') return null;
+    return { startedAt: new Date(startedAt), callId };
+}
+
+function toHistoryEntry(userId: string, record: CallRecord): CallHistoryEntry {
+    const outgoing = record.callerId === userId;
+    return {
+        callId:     record.callId,
+        direction:  outgoing ? 'outgoing' : 'incoming',
+        peerId:     outgoing ? record.calleeId : record.callerId,
+        state:      record.state,
+        endReason:  record.endReason,
+        startedAt:  record.startedAt.toISOString(),
+        answeredAt: record.answeredAt?.toISOString(),
+        endedAt:    record.endedAt?.toISOString()
+    };
+}
+
+/**
+ * Reads one page of a user's call history, newest first.
+ * @param storage Where call records are kept.
+ * @param userId The user.
+ * @param limit Page size (default 20).
+ * @param before The nextCursor of the previous page.
+ * @param missedOnly Only incoming calls that were not answered.
+ * @returns The page, or null if the cursor is not valid.
+ */
+export async function getCallHistoryPage(storage: Storage, userId: string, limit = DEFAULT_PAGE_SIZE, before?: string, missedOnly = false): Promise<CallHistoryPayload | null> {
+    let cursor: CallHistoryCursor | undefined;
+    if (before !== undefined) {
+        const decoded = decodeCursor(before);
+        if (!decoded) return null;
+        cursor = decoded;
+    }
+
+    // One extra row tells whether there is a further page
+    const records = await storage.callRecords.history(userId, limit + 1, cursor, missedOnly);
+    const page = records.slice(0, limit);
+    return {
+        calls:      page.map(record => toHistoryEntry(userId, record)),
+        nextCursor: records.length > limit ? encodeCursor(page[page.length - 1]) : undefined
+    };
+}
+
+export function purgeOldCallHistory(storage: Storage): Promise<number> {
+    return storage.callRecords.purgeOlderThan(CALL_HISTORY_RETENTION_DAYS);
+}
@@ -0,0 +1,257 @@
+import * as dotenv from 'dotenv';
+import { SignalingMessage, MessageType, CallState, CallEndedPayload, CallEndReason } from './types';
+import { locateDevices, sendToDevices } from './cluster';
+import { Storage, CallRecord } from './storage';
+import { moduleLogger } from './logger';
+
+dotenv.config();
+
+const logger = moduleLogger('calls');
+
+// How long a call may ring before it is missed
+export const CALL_RING_TIMEOUT_SEC = parseInt(process.env.CALL_RING_TIMEOUT_SEC || '45', 10);
+// Finished calls are remembered for a while so that late messages get a meaningful error
+const FINISHED_CALL_RETENTION_MS = 60000;
+
+// A one-to-one call. Until it is answered the callee side is "all devices"; the first answering
+// device claims the call. Every instance that relays or receives a call's messages keeps its own
+// copy; the copy on the caller device's instance is authoritative: it decides which callee device
+// claimed the call and times the call out.
+export interface CallSession {
+    callId:        string;
+    callerId:      string;
+    calleeId:      string;
+    callerDevice:  string;  // The device that sent the offer
+    answeredBy?:   string;  // The callee device that answered first
+    state:         CallState;
+    createdAt:     number;  // Epoch ms
+    answeredAt?:   number;
+    endedAt?:      number;
+    endReason?:    CallEndReason;
+    authoritative: boolean; // Only the authoritative copy is written to call history
+    history:       Storage | null; // Where the authoritative copy is written
+}
+
+// Called when a call is answered or finishes
+export type CallStateListener = (call: CallSession) => void;
+
+const calls  = new Map<string, CallSession>();
+const timers = new Map<string, NodeJS.Timeout>();
+// Last pending history write per call; writes of one call are applied in order
+const pendingWrites = new Map<string, Promise<void>>();
+const stateListeners: CallStateListener[] = [];
+
+export function onCallStateChange(listener: CallStateListener): void {
+    stateListeners.push(listener);
+}
+
+function notifyStateChange(call: CallSession): void {
+    stateListeners.forEach((listener) => {
+        try {
+            listener(call);
+        } catch (error) {
+            logger.log({ level: 'error', message: `Call ${call.callId}: state listener failed: ${error}`, callId: call.callId });
+        }
+    });
+}
+
+function persistCall(call: CallSession): void {
+    const history = call.history;
+    if (!history) return;
+    const record: CallRecord = {
+        callId:       call.callId,
+        callerId:     call.callerId,
+        calleeId:     call.calleeId,
+        callerDevice: call.callerDevice,
+        answeredBy:   call.answeredBy,
+        state:        call.state,
+        endReason:    call.endReason,
+        startedAt:    new Date(call.createdAt),
+        answeredAt:   call.answeredAt !== undefined ? new Date(call.answeredAt) : undefined,
+        endedAt:      call.endedAt !== undefined ? new Date(call.endedAt) : undefined
+    };
+    const previous = pendingWrites.get(call.callId) || Promise.resolve();
+    const write = previous.then(() => history.callRecords.save(record)).catch(() => { /* logged by the storage */ });
+    pendingWrites.set(call.callId, write);
+    write.then(() => {
+        if (pendingWrites.get(call.callId) === write) pendingWrites.delete(call.callId);
+    });
+}
+
+// Unref'd: a stopped server's calls must not keep the process alive
+function setTimer(callId: string, delayMs: number, callback: () => void): void {
+    const previous = timers.get(callId);
+    if (previous) clearTimeout(previous);
+    timers.set(callId, setTimeout(() => {
+        timers.delete(callId);
+        callback();
+    }, delayMs).unref());
+}
+
+export function isCallActive(call: CallSession): boolean {
+    return call.state === CallState.Ringing || call.state === CallState.Answered;
+}
+
+/**
+ * Starts tracking a call in the ringing state. Returns the existing call if the ID is already known.
+ * @param callId The call ID, assigned by the caller device's instance.
+ * @param callerId The user who sent the offer.
+ * @param callerDevice The device that sent the offer.
+ * @param calleeId The user being called.
+ * @param history The storage to record the call in on the caller device's instance, whose copy is authoritative; null elsewhere.
+ */
+export function startCall(callId: string, callerId: string, callerDevice: string, calleeId: string, history: Storage | null): CallSession {
+    const existing = calls.get(callId);
+    if (existing) return existing;
+
+    const call: CallSession = { callId, callerId, calleeId, callerDevice, state: CallState.Ringing, createdAt: Date.now(), authoritative: history !== null, history };
+    calls.set(callId, call);
+    setTimer(callId, CALL_RING_TIMEOUT_SEC * 1000, () => onRingTimeout(call));
+    logger.log({ level: 'info', message: `Call ${callId}: ${callerId} (device ${callerDevice}) is calling ${calleeId}`, callId });
+    persistCall(call);
+    return call;
+}
+
+export function getCall(callId: string): CallSession | undefined {
+    return calls.get(callId);
+}
+
+/**
+ * Counts the calls known to this instance that are still being set up: ringing ones, whose offer/answer exchange
+ * is in progress, and ones answered so recently that their ICE candidates may still be trickling in.
+ * @param settleMs How long after the answer a call still counts as being set up.
+ */
+export function countCallsSettingUp(settleMs: number): number {
+    const answeredSince = Date.now() - settleMs;
+    let count = 0;
+    calls.forEach((call) => {
+        if (call.state === CallState.Ringing || (call.state === CallState.Answered && call.answeredAt! > answeredSince)) count++;
+    });
+    return count;
+}
+
+/**
+ * Finds the call between two users that a message without a callId refers to: the most recent
+ * active one, or else the most recent one (so late messages learn that it has finished).
+ * @param userId One side of the call.
+ * @param peerId The other side.
+ */
+export function findCallBetween(userId: string, peerId: string): CallSession | undefined {
+    let found: CallSession | undefined;
+    calls.forEach((call) => {
+        const between = (call.callerId === userId && call.calleeId === peerId) || (call.callerId === peerId && call.calleeId === userId);
+        if (!between) return;
+        const better = !found
+            || (isCallActive(call) && !isCallActive(found))
+            || (isCallActive(call) === isCallActive(found) && call.createdAt > found.createdAt);
+        if (better) found = call;
+    });
+    return found;
+}
+
+/**
+ * Records that a callee device answered a ringing call.
+ * @param call The call.
+ * @param deviceId The answering callee device.
+ * @returns True if the device holds the call now (it claimed it, or had already).
+ */
+export function markAnswered(call: CallSession, deviceId: string): boolean {
+    if (call.state === CallState.Answered) return call.answeredBy === deviceId;
+    if (call.state !== CallState.Ringing) return false;
+
+    call.state = CallState.Answered;
+    call.answeredBy = deviceId;
+    call.answeredAt = Date.now();
+    const timer = timers.get(call.callId);
+    if (timer) clearTimeout(timer);
+    timers.delete(call.callId);
+    logger.log({ level: 'info', message: `Call ${call.callId} answered by ${call.calleeId} (device ${deviceId})`, callId: call.callId });
+    persistCall(call);
+    notifyStateChange(call);
+    return true;
+}
+
+/**
+ * Moves an active call to a final state.
+ * @param call The call.
+ * @param state The final state.
+ * @param reason Why the call finished.
+ * @returns False if the call had already finished.
+ */
+export function finishCall(call: CallSession, state: CallState, reason: CallEndReason): boolean {
+    if (!isCallActive(call)) return false;
+
+    call.state = state;
+    call.endedAt = Date.now();
+    call.endReason = reason;
+    setTimer(call.callId, FINISHED_CALL_RETENTION_MS, () => calls.delete(call.callId));
+    logger.log({ level: 'info', message: `Call ${call.callId} between ${call.callerId} and ${call.calleeId} ${state} (${reason})`, callId: call.callId });
+    persistCall(call);
+    notifyStateChange(call);
+    return true;
+}
+
+/**
+ * The final state a reject, cancel, hangup or busy message moves a call to.
+ * @param call The call.
+ * @param type The call control message type.
+ * @param senderId The user who sent it.
+ */
+export function endStateFor(call: CallSession, type: MessageType, senderId: string): CallState {
+    if (type === MessageType.Reject || type === MessageType.Busy) return CallState.Rejected;
+    if (type === MessageType.Cancel) return CallState.Cancelled;
+    // Hangup
+    if (call.state === CallState.Answered) return CallState.Ended;
+    return senderId === call.callerId ? CallState.Cancelled : CallState.Rejected;
+}
+
+/**
+ * Sends a message to some devices of a user, wherever in the cluster they are.
+ * @param userId The recipient user.
+ * @param message The message.
+ * @param shouldSend Selects the devices; all of them if omitted.
+ */
+export function sendToCallDevices(userId: string, message: SignalingMessage, shouldSend?: (deviceId: string) => boolean): void {
+    locateDevices(userId).then((devices) => {
+        const recipients = shouldSend ? devices.filter(device => shouldSend(device.deviceId)) : devices;
+        return sendToDevices(userId, recipients, message);
+    }).catch((error) => {
+        logger.log({ level: 'error', message: `Failed to send ${message.type} to ${userId}: ${error}` });
+    });
+}
+
+function callEnded(call: CallSession, reason: CallEndReason): SignalingMessage {
+    const payload: CallEndedPayload = { callId: call.callId, state: call.state, reason };
+    return { type: MessageType.CallEnded, payload };
+}
+
+// Only the authoritative copy tells the participants; the other copies just stop ringing
+function onRingTimeout(call: CallSession): void {
+    if (!finishCall(call, CallState.Missed, 'timeout') || !call.authoritative) return;
+    const message = callEnded(call, 'timeout');
+    sendToCallDevices(call.callerId, message, deviceId => deviceId === call.callerDevice);
+    sendToCallDevices(call.calleeId, message);
+}
+
+/**
+ * Ends the calls a device takes part in, e.g. when it disconnects, and tells the other side.
+ * A ringing callee device leaving does not end the call: the user's other devices may still answer.
+ * @param userId The device's user.
+ * @param deviceId The device.
+ */
+export function endCallsOfDevice(userId: string, deviceId: string): void {
+    calls.forEach((call) => {
+        if (!isCallActive(call)) return;
+        const isCaller = call.callerId === userId && call.callerDevice === deviceId;
+        const isCallee = call.calleeId === userId && call.answeredBy === deviceId;
+        if (!isCaller && !isCallee) return;
+
+        finishCall(call, call.state === CallState.Answered ? CallState.Ended : CallState.Cancelled, 'peer_disconnected');
+        const message = callEnded(call, 'peer_disconnected');
+        if (isCaller) {
+            sendToCallDevices(call.calleeId, message, peerDevice => !call.answeredBy || peerDevice === call.answeredBy);
+        } else {
+            sendToCallDevices(call.callerId, message, peerDevice => peerDevice === call.callerDevice);
+        }
+    });
+}
@@ -0,0 +1,184 @@
+import os from 'os';
+import WebSocket from 'ws';
+import { v4 as uuidv4 } from 'uuid';
+import * as dotenv from 'dotenv';
+import { getPgPool } from '../storage';
+import { moduleLogger } from '../logger';
+import { isSessionHeld } from '../resume';
+import { ClientMap, SignalingMessage, WebSocketClient } from '../types';
+import { createInMemoryBus, createInMemoryDirectory } from './memory';
+import { createPgNotifyBus, createPgSessionDirectory } from './postgres';
+import { BROADCAST_ADDRESS, ClusterEnvelope, DeviceLocation, MessageBus, SessionDirectory } from './types';
+
+export * from './types';
+export { createInMemoryBus, createInMemoryDirectory, InMemoryDirectoryStore } from './memory';
+export { createPgNotifyBus, createPgSessionDirectory } from './postgres';
+
+const logger = moduleLogger('cluster');
+
+dotenv.config();
+
+// Identifies this server process in the cluster; set INSTANCE_ID to e.g. the pod name for readable logs
+export const INSTANCE_ID = process.env.INSTANCE_ID || `${os.hostname()}-${uuidv4().slice(0, 8)}`;
+
+// Delivers a message to a device connected to this instance
+export type LocalDelivery = (ws: WebSocketClient, message: SignalingMessage) => void;
+
+// Receives a cluster-wide event about a user
+export type ClusterEventHandler = (userId: string, message: SignalingMessage) => void;
+
+// Single-instance defaults; replaced by configureClusterFromEnv or useClusterBackend
+let bus: MessageBus = createInMemoryBus();
+let directory: SessionDirectory = createInMemoryDirectory();
+let localClients: ClientMap = new Map();
+let deliverLocal: LocalDelivery = () => undefined;
+const eventHandlers = new Map<string, ClusterEventHandler>();
+
+/**
+ * Installs the bus and directory used for cross-instance routing, e.g. shared in-memory ones in tests.
+ * Must be called before startCluster.
+ * @param messageBus The transport between instances.
+ * @param sessionDirectory The record of which instance holds each device session.
+ */
+export function useClusterBackend(messageBus: MessageBus, sessionDirectory: SessionDirectory): void {
+    bus = messageBus;
+    directory = sessionDirectory;
+}
+
+/**
+ * Selects the cluster backend from CLUSTER_BACKEND: `memory` (default, single instance)
+ * or `postgres` (LISTEN/NOTIFY bus and session table on the main database).
+ */
+export function configureClusterFromEnv(): void {
+    if (process.env.CLUSTER_BACKEND === 'postgres') {
+        const heartbeatMs = parseInt(process.env.CLUSTER_HEARTBEAT_MS || '10000', 10);
+        const pool = getPgPool();
+        useClusterBackend(createPgNotifyBus(pool, process.env.DATABASE_URL), createPgSessionDirectory(pool, { heartbeatMs }));
+    }
+}
+
+/**
+ * Joins the cluster: registers this instance and starts receiving messages for its devices.
+ * @param clients Map of the clients connected to this instance.
+ * @param deliver Called for every message destined to one of this instance's devices.
+ */
+export async function startCluster(clients: ClientMap, deliver: LocalDelivery): Promise<void> {
+    localClients = clients;
+    deliverLocal = deliver;
+    await directory.start(INSTANCE_ID);
+    await bus.subscribe(INSTANCE_ID, deliverEnvelope);
+    logger.log({ level: 'info', message: `Cluster: instance ${INSTANCE_ID} started (bus: ${bus.name}, directory: ${directory.name})` });
+}
+
+/**
+ * Leaves the cluster, releasing every device session held by this instance.
+ */
+export async function stopCluster(): Promise<void> {
+    try {
+        await bus.close();
+        await directory.stop(INSTANCE_ID);
+        logger.log({ level: 'info', message: `Cluster: instance ${INSTANCE_ID} stopped` });
+    } catch (error) {
+        logger.log({ level: 'error', message: `Cluster: error while stopping instance ${INSTANCE_ID}: ${error}` });
+    }
+}
+
+/**
+ * Claims a device session for this instance.
+ * @param userId The user logging in.
+ * @param deviceId The device logging in.
+ * @returns False if the device is already connected anywhere in the cluster.
+ */
+export function claimDeviceSession(userId: string, deviceId: string): Promise<boolean> {
+    return directory.register(userId, deviceId, INSTANCE_ID);
+}
+
+/**
+ * Releases a device session held by this instance.
+ * @param userId The user that disconnected.
+ * @param deviceId The device that disconnected.
+ */
+export async function releaseDeviceSession(userId: string, deviceId: string): Promise<void> {
+    try {
+        await directory.unregister(userId, deviceId, INSTANCE_ID);
+    } catch (error) {
+        logger.log({ level: 'error', message: `Cluster: failed to release session ${userId}/${deviceId}: ${error}` });
+    }
+}
+
+/**
+ * Finds every connected device of a user across the cluster.
+ * @param userId The user to look up.
+ */
+export function locateDevices(userId: string): Promise<DeviceLocation[]> {
+    return directory.lookup(userId);
+}
+
+/**
+ * Sends a message to the given devices of a user, wherever in the cluster they are connected.
+ * @param userId The user the devices belong to.
+ * @param devices The devices, as returned by locateDevices.
+ * @param message The message to deliver.
+ */
+export async function sendToDevices(userId: string, devices: DeviceLocation[], message: SignalingMessage): Promise<void> {
+    const byInstance = new Map<string, string[]>();
+    devices.forEach(({ deviceId, instanceId }) => {
+        byInstance.set(instanceId, [...(byInstance.get(instanceId) || []), deviceId]);
+    });
+
+    const remote: Promise<void>[] = [];
+    byInstance.forEach((deviceIds, instanceId) => {
+        const envelope: ClusterEnvelope = { userId, deviceIds, message };
+        if (instanceId === INSTANCE_ID) {
+            deliverEnvelope(envelope);
+        } else {
+            remote.push(bus.publish(instanceId, envelope).catch((error) => {
+                logger.log({ level: 'error', message: `Cluster: failed to forward ${message.type} for ${userId} to ${instanceId}: ${error}` });
+            }));
+        }
+    });
+    await Promise.all(remote);
+}
+
+/**
+ * Whether other instances may share this one's bus. Rooms are kept per instance and are only offered when not.
+ */
+export function isClustered(): boolean {
+    return bus.shared;
+}
+
+/**
+ * Registers the handler for a topic of cluster-wide events.
+ * @param topic The topic, e.g. 'presence'.
+ * @param handler Called on every instance for every event published on the topic.
+ */
+export function onClusterEvent(topic: string, handler: ClusterEventHandler): void {
+    eventHandlers.set(topic, handler);
+}
+
+/**
+ * Publishes an event about a user to every instance, including this one.
+ * @param topic The topic.
+ * @param userId The user the event is about.
+ * @param message The event.
+ */
+export async function publishClusterEvent(topic: string, userId: string, message: SignalingMessage): Promise<void> {
+    await bus.publish(BROADCAST_ADDRESS, { userId, deviceIds: [], message, topic });
+}
+
+function deliverEnvelope(envelope: ClusterEnvelope): void {
+    if (envelope.topic !== undefined) {
+        eventHandlers.get(envelope.topic)?.(envelope.userId, envelope.message);
+        return;
+    }
+    const devices = localClients.get(envelope.userId);
+    envelope.deviceIds.forEach((deviceId) => {
+        const ws = devices?.get(deviceId);
+        // A held session's socket is closed, but delivery buffers the message for the resume
+        if (ws && (ws.readyState === WebSocket.OPEN || isSessionHeld(ws))) {
+            deliverLocal(ws, envelope.message);
+        } else {
+            logger.log({ level: 'info', message: `Cluster: ${envelope.message.type} for ${envelope.userId}/${deviceId} arrived after the device left` });
+        }
+    });
+}
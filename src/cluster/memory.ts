@@ -0,0 +1,81 @@
+import { EventEmitter } from 'events';
+import { BROADCAST_ADDRESS, ClusterEnvelope, DeviceLocation, EnvelopeHandler, MessageBus, SessionDirectory } from './types';
+
+/**
+ * In-process bus. Buses created with the same hub can reach each other, which lets
+ * tests run several server instances in one process. Delivery is asynchronous like a real bus.
+ * @param sharedHub Shared emitter connecting the simulated instances; without one the bus only reaches this instance.
+ */
+export function createInMemoryBus(sharedHub?: EventEmitter): MessageBus {
+    const hub = sharedHub ?? new EventEmitter();
+    const subscriptions: Array<{ instanceId: string; listener: (envelope: ClusterEnvelope) => void }> = [];
+
+    return {
+        name: 'memory',
+        shared: sharedHub !== undefined,
+        async subscribe(instanceId: string, handler: EnvelopeHandler): Promise<void> {
+            const listener = (envelope: ClusterEnvelope) => setImmediate(() => handler(envelope));
+            [instanceId, BROADCAST_ADDRESS].forEach((address) => {
+                hub.on(address, listener);
+                subscriptions.push({ instanceId: address, listener });
+            });
+        },
+        async publish(instanceId: string, envelope: ClusterEnvelope): Promise<void> {
+            // Round-trip through JSON so nothing is shared by reference, as with a real transport
+            hub.emit(instanceId, JSON.parse(JSON.stringify(envelope)));
+        },
+        async close(): Promise<void> {
+            subscriptions.forEach(({ instanceId, listener }) => hub.off(instanceId, listener));
+            subscriptions.length = 0;
+        }
+    };
+}
+
+// Backing store for in-memory directories: userId -> (deviceId -> instanceId)
+export type InMemoryDirectoryStore = Map<string, Map<string, string>>;
+
+/**
+ * In-process session directory. Directories created with the same store share their view.
+ * @param store Shared session store.
+ */
+export function createInMemoryDirectory(store: InMemoryDirectoryStore = new Map()): SessionDirectory {
+    function removeInstance(instanceId: string): void {
+        store.forEach((devices, userId) => {
+            devices.forEach((owner, deviceId) => {
+                if (owner === instanceId) devices.delete(deviceId);
+            });
+            if (devices.size === 0) store.delete(userId);
+        });
+    }
+
+    return {
+        name: 'memory',
+        async start(instanceId: string): Promise<void> {
+            removeInstance(instanceId);
+        },
+        async register(userId: string, deviceId: string, instanceId: string): Promise<boolean> {
+            let devices = store.get(userId);
+            if (!devices) {
+                devices = new Map();
+                store.set(userId, devices);
+            }
+            if (devices.has(deviceId)) return false;
+            devices.set(deviceId, instanceId);
+            return true;
+        },
+        async unregister(userId: string, deviceId: string, instanceId: string): Promise<void> {
+            const devices = store.get(userId);
+            if (!devices || devices.get(deviceId) !== instanceId) return;
+            devices.delete(deviceId);
+            if (devices.size === 0) store.delete(userId);
+        },
+        async lookup(userId: string): Promise<DeviceLocation[]> {
+            const devices = store.get(userId);
+            if (!devices) return [];
+            return Array.from(devices, ([deviceId, instanceId]) => ({ deviceId, instanceId }));
+        },
+        async stop(instanceId: string): Promise<void> {
+            removeInstance(instanceId);
+        }
+    };
+}
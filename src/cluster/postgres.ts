@@ -0,0 +1,185 @@
+import { Client, Pool, QueryResult } from 'pg';
+import { moduleLogger } from '../logger';
+import { migrateDatabase } from '../storage/migrations';
+import { BROADCAST_ADDRESS, ClusterEnvelope, DeviceLocation, EnvelopeHandler, MessageBus, SessionDirectory } from './types';
+
+const logger = moduleLogger('cluster');
+
+// NOTIFY payloads are limited to 8000 bytes; larger envelopes (big SDPs) are stored in a table
+// and only their row ID is sent
+const MAX_NOTIFY_PAYLOAD = 7900;
+const RECONNECT_DELAY_MS = 2000;
+
+function channelName(instanceId: string): string {
+    if (instanceId === BROADCAST_ADDRESS) return 'signaling__broadcast';
+    return `signaling_${instanceId.replace(/[^a-zA-Z0-9_]/g, '_')}`.toLowerCase().slice(0, 63);
+}
+
+/**
+ * Bus using PostgreSQL LISTEN/NOTIFY. Listening needs a dedicated connection, which is
+ * re-established if it drops; notifications are sent through the shared pool.
+ * @param pool The shared connection pool.
+ * @param connectionString Connection string for the dedicated listening connection.
+ */
+export function createPgNotifyBus(pool: Pool, connectionString?: string): MessageBus {
+    let listener: Client | null = null;
+    let closed = false;
+
+    async function ensureSpillTable(): Promise<void> {
+        await migrateDatabase(pool);
+        // Leftovers whose notification was never received (e.g. the listener was reconnecting)
+        await pool.query(`DELETE FROM cluster_spilled_messages WHERE created_at < CURRENT_TIMESTAMP - INTERVAL '5 minutes'`);
+    }
+
+    async function readNotification(payload: string): Promise<ClusterEnvelope | null> {
+        if (!payload.startsWith('spill:')) return JSON.parse(payload);
+        const result: QueryResult<{ envelope: string }> = await pool.query(
+            'DELETE FROM cluster_spilled_messages WHERE id = $1 RETURNING envelope',
+            [payload.slice('spill:'.length)]
+        );
+        return result.rows.length > 0 ? JSON.parse(result.rows[0].envelope) : null;
+    }
+
+    async function listen(instanceId: string, handler: EnvelopeHandler): Promise<void> {
+        const client = new Client({ connectionString });
+        let connected = false;
+        client.on('notification', (notification) => {
+            if (!notification.payload) return;
+            readNotification(notification.payload).then((envelope) => {
+                if (envelope) handler(envelope);
+            }).catch((error) => {
+                logger.log({ level: 'error', message: `Cluster: failed to read notification: ${error}` });
+            });
+        });
+        client.on('error', (error) => {
+            logger.log({ level: 'error', message: `Cluster: LISTEN connection error: ${error}` });
+            if (!connected) return; // Reported through the rejected connect() below
+            client.end().catch(() => { /* already broken */ });
+            if (listener === client) listener = null;
+            // Notifications sent while reconnecting are lost
+            if (!closed) scheduleReconnect(instanceId, handler);
+        });
+        try {
+            await client.connect();
+            await client.query(`LISTEN ${channelName(instanceId)}`);
+            await client.query(`LISTEN ${channelName(BROADCAST_ADDRESS)}`);
+        } catch (error) {
+            client.end().catch(() => { /* never connected */ });
+            throw error;
+        }
+        connected = true;
+        listener = client;
+        logger.log({ level: 'info', message: `Cluster: listening on ${channelName(instanceId)} and ${channelName(BROADCAST_ADDRESS)}` });
+    }
+
+    function scheduleReconnect(instanceId: string, handler: EnvelopeHandler): void {
+        setTimeout(() => {
+            if (closed) return;
+            listen(instanceId, handler).catch((error) => {
+                logger.log({ level: 'error', message: `Cluster: failed to re-establish LISTEN for ${instanceId}: ${error}` });
+                scheduleReconnect(instanceId, handler);
+            });
+        }, RECONNECT_DELAY_MS);
+    }
+
+    return {
+        name: 'postgres',
+        shared: true,
+        async subscribe(instanceId: string, handler: EnvelopeHandler): Promise<void> {
+            await ensureSpillTable();
+            await listen(instanceId, handler);
+        },
+        async publish(instanceId: string, envelope: ClusterEnvelope): Promise<void> {
+            let payload = JSON.stringify(envelope);
+            if (Buffer.byteLength(payload) > MAX_NOTIFY_PAYLOAD) {
+                // A spilled envelope is consumed by its first reader, so broadcasts must fit in a notification
+                if (instanceId === BROADCAST_ADDRESS) throw new Error('Broadcast envelope too large for NOTIFY');
+                const result: QueryResult<{ id: string }> = await pool.query(
+                    'INSERT INTO cluster_spilled_messages (envelope) VALUES ($1) RETURNING id',
+                    [payload]
+                );
+                payload = `spill:${result.rows[0].id}`;
+            }
+            await pool.query('SELECT pg_notify($1, $2)', [channelName(instanceId), payload]);
+        },
+        async close(): Promise<void> {
+            closed = true;
+            if (listener) {
+                const client = listener;
+                listener = null;
+                await client.end();
+            }
+        }
+    };
+}
+
+export interface PgSessionDirectoryOptions {
+    heartbeatMs?: number; // How often the instance announces it is alive
+}
+
+/**
+ * Session directory stored in PostgreSQL. Instances refresh a heartbeat row; sessions owned
+ * by an instance that stopped heartbeating (e.g. crashed) are ignored and can be taken over.
+ * @param pool The shared connection pool.
+ * @param options Heartbeat settings.
+ */
+export function createPgSessionDirectory(pool: Pool, options: PgSessionDirectoryOptions = {}): SessionDirectory {
+    const heartbeatMs = options.heartbeatMs ?? 10000;
+    const staleAfter  = `${Math.ceil(heartbeatMs * 3 / 1000)} seconds`;
+    let heartbeat: NodeJS.Timeout | null = null;
+
+    async function announce(instanceId: string): Promise<void> {
+        await pool.query(`
+            INSERT INTO cluster_instances (instance_id, last_seen) VALUES ($1, CURRENT_TIMESTAMP)
+            ON CONFLICT (instance_id) DO UPDATE SET last_seen = CURRENT_TIMESTAMP;
+        `, [instanceId]);
+    }
+
+    return {
+        name: 'postgres',
+        async start(instanceId: string): Promise<void> {
+            await migrateDatabase(pool); // The session tables are created by the migrations
+            await pool.query('DELETE FROM cluster_sessions WHERE instance_id = $1', [instanceId]);
+            await announce(instanceId);
+            heartbeat = setInterval(() => {
+                announce(instanceId).catch((error) => {
+                    logger.log({ level: 'error', message: `Cluster: heartbeat for ${instanceId} failed: ${error}` });
+                });
+            }, heartbeatMs);
+            heartbeat.unref();
+        },
+        async register(userId: string, deviceId: string, instanceId: string): Promise<boolean> {
+            // Inserts the session, or takes it over if its owner is no longer alive
+            const result = await pool.query(`
+                INSERT INTO cluster_sessions (user_id, device_id, instance_id) VALUES ($1, $2, $3)
+                ON CONFLICT (user_id, device_id) DO UPDATE
+                    SET instance_id = EXCLUDED.instance_id, connected_at = CURRENT_TIMESTAMP
+                    WHERE cluster_sessions.instance_id NOT IN (
+                        SELECT instance_id FROM cluster_instances WHERE last_seen > CURRENT_TIMESTAMP - $4::interval
+                    )
+                RETURNING user_id;
+            `, [userId, deviceId, instanceId, staleAfter]);
+            return (result.rowCount ?? 0) > 0;
+        },
+        async unregister(userId: string, deviceId: string, instanceId: string): Promise<void> {
+            await pool.query(
+                'DELETE FROM cluster_sessions WHERE user_id = $1 AND device_id = $2 AND instance_id = $3',
+                [userId, deviceId, instanceId]
+            );
+        },
+        async lookup(userId: string): Promise<DeviceLocation[]> {
+            const result: QueryResult<{ device_id: string, instance_id: string }> = await pool.query(`
+                SELECT s.device_id, s.instance_id FROM cluster_sessions s
+                JOIN cluster_instances i ON i.instance_id = s.instance_id
+                WHERE s.user_id = $1 AND i.last_seen > CURRENT_TIMESTAMP - $2::interval;
+            `, [userId, staleAfter]);
+            return result.rows.map(row => ({ deviceId: row.device_id, instanceId: row.instance_id }));
+        },
+        async stop(instanceId: string): Promise<void> {
+            if (heartbeat) clearInterval(heartbeat);
+            heartbeat = null;
+            await pool.query('DELETE FROM cluster_sessions WHERE instance_id = $1', [instanceId]);
+            await pool.query('DELETE FROM cluster_instances WHERE instance_id = $1', [instanceId]);
+        }
+    };
+}
@@ -0,0 +1,43 @@
+import { SignalingMessage } from '../types';
+
+// Where a device session lives in the cluster
+export interface DeviceLocation {
+    deviceId:   string;
+    instanceId: string;
+}
+
+// Sent between instances: deliver `message` to the listed devices of `userId` on the receiving instance.
+// Envelopes with a `topic` are cluster-wide events about `userId` instead (deviceIds is empty).
+export interface ClusterEnvelope {
+    userId:    string;
+    deviceIds: string[];
+    message:   SignalingMessage;
+    topic?:    string;
+}
+
+// Publishing to this address reaches every instance, including the publisher
+export const BROADCAST_ADDRESS = '*';
+
+export type EnvelopeHandler = (envelope: ClusterEnvelope) => void;
+
+// Transport between server instances; each instance subscribes to its own ID (and receives broadcasts)
+export interface MessageBus {
+    readonly name: string;
+    readonly shared: boolean; // Other instances may be on it; rooms, which are kept per instance, are then turned off
+    subscribe(instanceId: string, handler: EnvelopeHandler): Promise<void>;
+    publish(instanceId: string, envelope: ClusterEnvelope): Promise<void>;
+    close(): Promise<void>;
+}
+
+// Cluster-wide record of which instance holds each device session
+export interface SessionDirectory {
+    readonly name: string;
+    // Announces this instance as alive and drops any sessions it owned before a restart
+    start(instanceId: string): Promise<void>;
+    // Claims a device session; false if the device is already connected to a live instance
+    register(userId: string, deviceId: string, instanceId: string): Promise<boolean>;
+    unregister(userId: string, deviceId: string, instanceId: string): Promise<void>;
+    lookup(userId: string): Promise<DeviceLocation[]>;
+    // Removes every session of the instance and stops announcing it
+    stop(instanceId: string): Promise<void>;
+}
@@ -0,0 +1,174 @@
+import crypto from 'crypto';
+import * as dotenv from 'dotenv';
+import { IncomingMessage, ServerResponse } from 'http';
+import { ClientMap, ErrorCode, ErrorPayload } from './types';
+import { authenticator as defaultAuthenticator, Authenticator, extractUpgradeToken, AuthError } from './auth';
+import { Storage } from './storage';
+import { INSTANCE_ID } from './cluster';
+import { getIceServers } from './ice';
+import { renderMetrics } from './metrics';
+import { closeWithoutResume } from './resume';
+import { getClientAddress, recordLoginFailure } from './rateLimit';
+import { moduleLogger } from './logger';
+
+dotenv.config();
+
+const logger = moduleLogger('http');
+
+// Bearer token for the /admin routes; they are disabled (404) while it is not set
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN;
+export const WS_CLOSE_ADMIN_DISCONNECT = 4002; // Application close code sent when an administrator disconnects a device
+
+export type RequestHandler = (req: IncomingMessage, res: ServerResponse) => void;
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+}
+
+// Answers 405 unless the request uses one of the methods
+function allowMethods(req: IncomingMessage, res: ServerResponse, ...methods: string[]): boolean {
+    if (methods.includes(req.method || '')) return true;
+    sendJson(res, 405, { message: 'Method not allowed' }, { Allow: methods.join(', ') });
+    return false;
+}
+
+/**
+ * Creates the handler for plain HTTP requests on the signaling port; WebSocket upgrades never get there.
+ * @param clients Map of the clients connected to this instance, for the admin routes.
+ * @param storage The storage whose health decides readiness.
+ * @param isDraining Whether the server is draining, which makes it unready.
+ * @param authenticator Verifies the tokens of ICE server requests; defaults to the one configured from the environment.
+ */
+export function createHttpHandler(
+    clients: ClientMap,
+    storage: Storage,
+    isDraining: () => boolean = () => false,
+    authenticator: Authenticator = defaultAuthenticator
+): RequestHandler {
+    return (req, res) => {
+        const path = new URL(req.url || '/', 'http://localhost').pathname;
+        route(req, res, path, clients, storage, isDraining, authenticator).catch((error) => {
+            logger.log({ level: 'error', message: `HTTP Error: ${req.method} ${path} failed: ${error}` });
+            if (!res.headersSent) sendJson(res, 500, { code: ErrorCode.ServerError, message: 'Server error' });
+        });
+    };
+}
+
+async function route(
+    req: IncomingMessage, res: ServerResponse, path: string, clients: ClientMap, storage: Storage, isDraining: () => boolean, authenticator: Authenticator
+): Promise<void> {
+    if (path === '/healthz') {
+        // Liveness: the process is serving requests
+        if (allowMethods(req, res, 'GET')) sendJson(res, 200, { status: 'ok', instanceId: INSTANCE_ID });
+        return;
+    }
+    if (path === '/readyz') {
+        if (allowMethods(req, res, 'GET')) await handleReady(res, storage, isDraining());
+        return;
+    }
+    if (path === '/metrics') {
+        if (!allowMethods(req, res, 'GET')) return;
+        res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+        res.end(renderMetrics());
+        return;
+    }
+    if (path === '/ice-servers') {
+        if (allowMethods(req, res, 'GET')) await handleIceServers(req, res, authenticator);
+        return;
+    }
+    if (path.startsWith('/admin/') && ADMIN_TOKEN) {
+        handleAdmin(req, res, path, clients);
+        return;
+    }
+    sendJson(res, 404, { message: 'Not found' });
+}
+
+// GET /readyz: ready while the storage answers and the server is not draining; a database pool's state is included either way
+async function handleReady(res: ServerResponse, storage: Storage, draining: boolean): Promise<void> {
+    const health = await storage.checkHealth();
+    if (!health.ok) logger.log({ level: 'warn', message: `Readiness check failed: ${health.error}` });
+    const status = draining ? 'draining' : health.ok ? 'ready' : 'not_ready';
+    sendJson(res, status === 'ready' ? 200 : 503, { status, instanceId: INSTANCE_ID, storage: health });
+}
+
+// GET /ice-servers: the same ICE configuration as get_ice_servers, authenticated like the WebSocket upgrade
+async function handleIceServers(req: IncomingMessage, res: ServerResponse, authenticator: Authenticator): Promise<void> {
+    const token = extractUpgradeToken(req);
+    if (!token) {
+        const error: ErrorPayload = { code: ErrorCode.AuthRequired, message: 'A bearer token is required' };
+        sendJson(res, 401, error, { 'WWW-Authenticate': 'Bearer' });
+        return;
+    }
+
+    let userId: string;
+    try {
+        userId = (await authenticator.authenticate(token)).userId;
+    } catch (err) {
+        const address = getClientAddress(req);
+        logger.log({ level: 'warn', message: `Rejected ICE server request from ${address}: ${err}` });
+        recordLoginFailure(address);
+        const error: ErrorPayload = { code: err instanceof AuthError ? err.code : ErrorCode.TokenInvalid, message: 'Token rejected' };
+        sendJson(res, 401, error, { 'WWW-Authenticate': 'Bearer error="invalid_token"' });
+        return;
+    }
+
+    // Credentials are per user and short-lived
+    sendJson(res, 200, getIceServers(userId), { 'Cache-Control': 'no-store' });
+}
+
+// Compares digests so that the comparison takes the same time whatever the token
+function isAdminRequest(req: IncomingMessage): boolean {
+    const header = req.headers['authorization'];
+    if (!header || !header.startsWith('Bearer ')) return false;
+    const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+    return crypto.timingSafeEqual(digest(header.slice('Bearer '.length).trim()), digest(ADMIN_TOKEN!));
+}
+
+// Admin routes act on the devices connected to this instance only
+function handleAdmin(req: IncomingMessage, res: ServerResponse, path: string, clients: ClientMap): void {
+    if (!isAdminRequest(req)) {
+        const address = getClientAddress(req);
+        logger.log({ level: 'warn', message: `Rejected admin request ${req.method} ${path} from ${address}` });
+        recordLoginFailure(address);
+        const error: ErrorPayload = { code: ErrorCode.AuthRequired, message: 'Admin token required' };
+        sendJson(res, 401, error, { 'WWW-Authenticate': 'Bearer' });
+        return;
+    }
+
+    // GET /admin/users: every connected device, grouped by user
+    if (path === '/admin/users') {
+        if (!allowMethods(req, res, 'GET')) return;
+        const users = Array.from(clients, ([userId, devices]) => ({
+            userId,
+            devices: Array.from(devices.values(), ws => ({
+                deviceId:      ws.deviceId,
+                remoteAddress: ws.remoteAddress,
+                connectedAt:   ws.connectedAt !== undefined ? new Date(ws.connectedAt).toISOString() : undefined,
+                authExpiresAt: ws.authExpiresAt !== undefined ? new Date(ws.authExpiresAt).toISOString() : undefined,
+                held:          ws.resumeBuffer !== undefined // Disconnected, waiting for a resume
+            }))
+        }));
+        sendJson(res, 200, { instanceId: INSTANCE_ID, users }, { 'Cache-Control': 'no-store' });
+        return;
+    }
+
+    // DELETE /admin/users/<userId>[?deviceId=<deviceId>]: disconnects all of the user's devices, or one
+    const match = /^\/admin\/users\/([^/]+)$/.exec(path);
+    if (match) {
+        if (!allowMethods(req, res, 'DELETE')) return;
+        const userId = decodeURIComponent(match[1]);
+        const deviceId = new URL(req.url || '/', 'http://localhost').searchParams.get('deviceId');
+        const devices = Array.from(clients.get(userId)?.values() || []).filter(ws => deviceId === null || ws.deviceId === deviceId);
+        if (devices.length === 0) {
+            sendJson(res, 404, { message: `No matching device of ${userId} is connected to instance ${INSTANCE_ID}` });
+            return;
+        }
+        devices.forEach(ws => closeWithoutResume(ws, WS_CLOSE_ADMIN_DISCONNECT, 'Disconnected by administrator'));
+        logger.log({ level: 'warn', message: `Admin disconnected ${devices.length} device(s) of ${userId}` });
+        sendJson(res, 200, { instanceId: INSTANCE_ID, userId, disconnected: devices.map(ws => ws.deviceId) });
+        return;
+    }
+
+    sendJson(res, 404, { message: 'Not found' });
+}
@@ -0,0 +1,50 @@
+import crypto from 'crypto';
+import * as dotenv from 'dotenv';
+import { IceServer, IceServersPayload } from './types';
+import { moduleLogger } from './logger';
+
+dotenv.config();
+
+const logger = moduleLogger('ice');
+
+function parseUrls(value: string | undefined): string[] {
+    return (value || '').split(',').map(url => url.trim()).filter(Boolean);
+}
+
+const STUN_URLS   = parseUrls(process.env.STUN_URLS);
+const TURN_URLS   = parseUrls(process.env.TURN_URLS); // e.g. turn:turn.example.com:3478?transport=udp,turns:turn.example.com:5349
+const TURN_SECRET = process.env.TURN_SECRET;          // coturn static-auth-secret (use-auth-secret)
+// Lifetime of issued TURN credentials
+export const TURN_CREDENTIAL_TTL_SEC = parseInt(process.env.TURN_CREDENTIAL_TTL_SEC || '3600', 10);
+
+if (TURN_URLS.length > 0 && !TURN_SECRET) {
+    logger.log({ level: 'warn', message: 'TURN_URLS is set but TURN_SECRET is not; TURN servers will not be offered.' });
+}
+
+/**
+ * Creates TURN credentials using the coturn REST API scheme: the username is "<expiry>:<userId>"
+ * and the password is base64(HMAC-SHA1(secret, username)), so coturn can check them without a lookup.
+ * @param userId The user the credentials are issued to.
+ * @param secret The shared secret configured in coturn.
+ * @param ttlSec How long the credentials are valid.
+ * @param now Current time in epoch ms.
+ */
+export function createTurnCredentials(userId: string, secret: string, ttlSec: number, now = Date.now()): { username: string; credential: string } {
+    const expiresAt = Math.floor(now / 1000) + ttlSec;
+    const username = `${expiresAt}:${userId}`;
+    const credential = crypto.createHmac('sha1', secret).update(username).digest('base64');
+    return { username, credential };
+}
+
+/**
+ * The ICE configuration for a user: the STUN servers plus TURN servers with fresh credentials.
+ * @param userId The authenticated user.
+ */
+export function getIceServers(userId: string): IceServersPayload {
+    const iceServers: IceServer[] = [];
+    if (STUN_URLS.length > 0) iceServers.push({ urls: STUN_URLS });
+    if (TURN_URLS.length > 0 && TURN_SECRET) {
+        iceServers.push({ urls: TURN_URLS, ...createTurnCredentials(userId, TURN_SECRET, TURN_CREDENTIAL_TTL_SEC) });
+    }
+    return { iceServers, ttlSec: TURN_CREDENTIAL_TTL_SEC };
+}
@@ -0,0 +1,68 @@
+import dgram from 'dgram';
+import os from 'os';
+import winston from 'winston';
+import TransportStream from 'winston-transport';
+
+// Where the default logger writes, selected with LOG_SINKS
+export type LogSink = 'stdout' | 'file' | 'syslog';
+export const LOG_SINKS: LogSink[] = ['stdout', 'file', 'syslog'];
+
+const DEFAULT_FILE_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_FILE_MAX_FILES = 5;
+const DEFAULT_SYSLOG_PORT = 514;
+const SYSLOG_FACILITY_LOCAL0 = 16;
+// npm levels to syslog severities (RFC 5424)
+const SYSLOG_SEVERITIES: Record<string, number> = { error: 3, warn: 4, info: 6, http: 6, verbose: 7, debug: 7, silly: 7 };
+
+/**
+ * Sends each entry as an RFC 5424 datagram over UDP, with the JSON line as the message.
+ * Delivery is best effort: datagrams that cannot be sent are dropped.
+ */
+class SyslogTransport extends TransportStream {
+    private readonly socket = dgram.createSocket('udp4');
+
+    constructor(private readonly host: string, private readonly port: number, private readonly appName: string) {
+        super();
+        this.socket.on('error', () => { /* Dropped; nothing to log to */ });
+        this.socket.unref();
+    }
+
+    log(info: Record<string | symbol, unknown>, callback: () => void): void {
+        const priority = SYSLOG_FACILITY_LOCAL0 * 8 + (SYSLOG_SEVERITIES[info.level as string] ?? 6);
+        const line = `<${priority}>1 ${new Date().toISOString()} ${os.hostname()} ${this.appName} ${process.pid} - - ${String(info[Symbol.for('message')])}`;
+        this.socket.send(line, this.port, this.host, () => callback());
+    }
+
+    close(): void {
+        this.socket.close();
+    }
+}
+
+/**
+ * Creates the transports for the sinks named in LOG_SINKS (default `stdout`), each writing one JSON object per line.
+ * @param service The service name, used as the syslog app name.
+ * @throws Error if LOG_SINKS names an unknown sink.
+ */
+export function createSinksFromEnv(service: string): TransportStream[] {
+    const sinks = (process.env.LOG_SINKS || 'stdout').split(',').map(sink => sink.trim()).filter(Boolean);
+    return sinks.map((sink) => {
+        switch (sink) {
+            case 'stdout':
+                return new winston.transports.Console();
+            case 'file': {
+                // Rotated by size: the full file is renamed with a number and the oldest is deleted
+                const rotation = {
+                    dirname:  process.env.LOG_DIR || 'logs',
+                    maxsize:  parseInt(process.env.LOG_FILE_MAX_BYTES || String(DEFAULT_FILE_MAX_BYTES), 10),
+                    maxFiles: parseInt(process.env.LOG_FILE_MAX_FILES || String(DEFAULT_FILE_MAX_FILES), 10),
+                    tailable: true
+                };
+                return new winston.transports.File({ ...rotation, filename: 'signaling.log' });
+            }
+            case 'syslog':
+                return new SyslogTransport(process.env.SYSLOG_HOST || 'localhost', parseInt(process.env.SYSLOG_PORT || String(DEFAULT_SYSLOG_PORT), 10), service);
+            default:
+                throw new Error(`Unknown log sink in LOG_SINKS: ${sink} (expected ${LOG_SINKS.join(', ')})`);
+        }
+    });
+}
@@ -1,28 +1,140 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import winston from 'winston';
+import TransportStream from 'winston-transport';
+import { createSinksFromEnv } from './logSinks';
 
-export const logger = winston.createLogger({
-  level: 'info',
-  format: winston.format.json(),
-  defaultMeta: { service: 'user-service' },
-  transports: [
-    //
-    // - Write all logs with importance level of `error` or higher to `error.log`
-    //   (i.e., error, fatal, but not other levels)
-    //
-    new winston.transports.File({ filename: 'error.log', level: 'error' }),
-    //
-    // - Write all logs with importance level of `info` or higher to `combined.log`
-    //   (i.e., fatal, error, warn, and info, but not trace)
-    //
-    new winston.transports.File({ filename: 'combined.log' }),
-  ],
-});
-
-// If we're not in production then log to the `console` with the format:
-// `${info.level}: ${info.message} JSON.stringify({ ...rest }) `
-//
-if (process.env.NODE_ENV !== 'production') {
-  logger.add(new winston.transports.Console({
-    format: winston.format.simple(),
-  }));
+// Structured fields of a log entry, besides its level and message
+export type LogFields = Record<string, unknown>;
+
+export interface LogEntry {
+  level: string;
+  message: string;
+  [field: string]: unknown;
+}
+
+// What the server needs from a logger; a winston logger fits, as do adapters for other libraries
+export interface Logger {
+  log(entry: LogEntry): unknown;
+}
+
+// npm levels, most severe first: error, warn, info, http, verbose, debug, silly
+const LEVELS: Record<string, number> = winston.config.npm.levels;
+const DEFAULT_LEVEL = 'info';
+const DEFAULT_SERVICE = 'signaling-server';
+
+// Values of these fields are never logged: session descriptions, ICE candidates (they reveal addresses), tokens and credentials
+const REDACTED_FIELDS = new Set(['sdp', 'candidate', 'candidates', 'token', 'pushtoken', 'resumetoken', 'credential', 'password', 'authorization']);
+const REDACTED = '[redacted]';
+const MAX_FIELD_DEPTH = 8;
+
+let defaultLevel = DEFAULT_LEVEL;
+const moduleLevels = new Map<string, string>();
+
+// Fields added to every entry logged while a connection's events or messages are handled
+const logContext = new AsyncLocalStorage<() => LogFields>();
+
+function createWinstonLogger(service: string, transports: TransportStream[]): winston.Logger {
+  return winston.createLogger({
+    level: 'silly', // Entries are filtered by module before they get here
+    format: winston.format.combine(winston.format.timestamp(), winston.format.json()),
+    defaultMeta: { service },
+    transports,
+  });
+}
+
+// Created on first use, so that nothing is opened when another logger is installed first
+let target: Logger | null = null;
+
+function getTarget(): Logger {
+  if (!target) target = createWinstonLogger(DEFAULT_SERVICE, [new winston.transports.Console()]);
+  return target;
+}
+
+function redactAt(value: unknown, depth: number): unknown {
+  if (value instanceof Error) return String(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= MAX_FIELD_DEPTH) return '[too deep]';
+  if (Array.isArray(value)) return value.map(item => redactAt(item, depth + 1));
+  const copy: LogFields = {};
+  Object.entries(value).forEach(([key, field]) => {
+    copy[key] = REDACTED_FIELDS.has(key.toLowerCase()) && field !== undefined ? REDACTED : redactAt(field, depth + 1);
+  });
+  return copy;
+}
+
+/**
+ * Copies a value for logging with the values of sensitive fields replaced, at any depth.
+ * @param value The value.
+ */
+export function redact(value: unknown): unknown {
+  return redactAt(value, 0);
+}
+
+function isEnabled(level: string, module: string): boolean {
+  const threshold = moduleLevels.get(module) ?? defaultLevel;
+  return (LEVELS[level] ?? 0) <= LEVELS[threshold];
+}
+
+/**
+ * A logger for one module. Entries below the module's level are dropped; the others get a `module` field
+ * and the fields of the surrounding log context, and sensitive fields are redacted before they are written.
+ * @param module The module name, as used in LOG_LEVELS.
+ */
+export function moduleLogger(module: string): Logger {
+  return {
+    log(entry) {
+      if (!isEnabled(entry.level, module)) return;
+      const contextFields = logContext.getStore()?.();
+      return getTarget().log(redact({ ...contextFields, module, ...entry }) as LogEntry);
+    }
+  };
+}
+
+export const logger = moduleLogger('server');
+
+/**
+ * Runs a function with fields added to everything it logs, including from callbacks it starts.
+ * Fields are read when an entry is logged, so they can follow state that changes meanwhile (e.g. the user after login).
+ * @param fields Returns the fields; nested contexts add to the outer one's.
+ * @param run The function.
+ */
+export function withLogContext<T>(fields: () => LogFields, run: () => T): T {
+  const outer = logContext.getStore();
+  return logContext.run(outer ? () => ({ ...outer(), ...fields() }) : fields, run);
+}
+
+/**
+ * Sets the level entries must reach to be logged, for every module or for one.
+ * @param level An npm level: error, warn, info, http, verbose, debug or silly.
+ * @param module The module; all of them if omitted (modules with their own level keep it).
+ * @throws Error if the level is unknown.
+ */
+export function setLogLevel(level: string, module?: string): void {
+  if (LEVELS[level] === undefined) throw new Error(`Unknown log level: ${level}`);
+  if (module) moduleLevels.set(module, level);
+  else defaultLevel = level;
+}
+
+/**
+ * Sends every log entry to another logger from now on, e.g. the embedding application's or a silent one in tests.
+ * @param custom The logger to use.
+ */
+export function useLogger(custom: Logger): void {
+  target = custom;
+}
+
+/**
+ * Configures logging from LOG_LEVEL (default `info`), LOG_LEVELS (per module, e.g. `cluster=debug,storage=warn`),
+ * LOG_SERVICE (the `service` field, default `signaling-server`) and LOG_SINKS (see logSinks.ts).
+ * @throws Error if a level or sink is unknown.
+ */
+export function configureLoggingFromEnv(): void {
+  setLogLevel(process.env.LOG_LEVEL || DEFAULT_LEVEL);
+  (process.env.LOG_LEVELS || '').split(',').map(entry => entry.trim()).filter(Boolean).forEach((entry) => {
+    const [module, level] = entry.split('=').map(part => part.trim());
+    if (!module || !level) throw new Error(`Invalid LOG_LEVELS entry: ${entry} (expected module=level)`);
+    setLogLevel(level, module);
+  });
+  const service = process.env.LOG_SERVICE || DEFAULT_SERVICE;
+  useLogger(createWinstonLogger(service, createSinksFromEnv(service)));
 }
@@ -0,0 +1,69 @@
+import * as dotenv from 'dotenv';
+import { WebSocketClient, SignalingMessage, MessageType, ReceiptPayload } from './types';
+import { Storage } from './storage';
+import { locateDevices, sendToDevices } from './cluster';
+import { sendWsMessage } from './wsUtils';
+import { moduleLogger } from './logger';
+
+dotenv.config();
+
+const logger = moduleLogger('mailbox');
+
+// How long an undelivered message is kept (default: one week)
+export const OFFLINE_MESSAGE_TTL_SEC = parseInt(process.env.OFFLINE_MESSAGE_TTL_SEC || '604800', 10);
+// Upper bound on undelivered messages per recipient
+export const OFFLINE_MAILBOX_MAX = parseInt(process.env.OFFLINE_MAILBOX_MAX || '100', 10);
+
+/**
+ * Stores a message for an offline user; it is delivered when one of their devices logs in.
+ * @param storage Where the mailbox is kept.
+ * @param senderId The sending user.
+ * @param recipientId The offline user.
+ * @param message The message as it should be delivered (sender already attached).
+ * @returns The message ID, or null if the recipient's mailbox is full.
+ */
+export function queueForOfflineUser(storage: Storage, senderId: string, recipientId: string, message: SignalingMessage): Promise<string | null> {
+    return storage.offlineMessages.queue(recipientId, senderId, message, OFFLINE_MESSAGE_TTL_SEC, OFFLINE_MAILBOX_MAX);
+}
+
+/**
+ * Sends a freshly logged-in device everything queued for its user, oldest first.
+ * Messages stay queued until acknowledged with message_ack.
+ * @param storage Where the mailbox is kept.
+ * @param ws The device that just logged in.
+ */
+export async function deliverQueuedMessages(storage: Storage, ws: WebSocketClient): Promise<void> {
+    const queued = await storage.offlineMessages.list(ws.userId!);
+    if (queued.length === 0) return;
+    logger.log({ level: 'info', message: `Delivering ${queued.length} queued message(s) to ${ws.userId} (device ${ws.deviceId})` });
+    queued.forEach((record) => {
+        sendWsMessage(ws, { ...record.message, messageId: record.id });
+    });
+}
+
+/**
+ * Removes an acknowledged message and sends the original sender a delivered receipt.
+ * The receipt is queued as well if the sender is offline by now.
+ * @param storage Where the mailbox is kept.
+ * @param ws The recipient device acknowledging the message.
+ * @param messageId The acknowledged message.
+ * @returns False if no such message is queued for this user.
+ */
+export async function acknowledgeQueuedMessage(storage: Storage, ws: WebSocketClient, messageId: string): Promise<boolean> {
+    const record = await storage.offlineMessages.delete(ws.userId!, messageId);
+    if (!record) return false;
+    logger.log({ level: 'info', message: `Queued message ${messageId} acknowledged by ${ws.userId}` });
+
+    // Receipts are not receipted themselves
+    if (record.message.type !== MessageType.MessageRequest) return true;
+
+    const receipt: ReceiptPayload = { messageId, target: ws.userId! };
+    const message: SignalingMessage = { type: MessageType.Delivered, payload: receipt, sender: ws.userId };
+    const senderDevices = await locateDevices(record.senderId);
+    if (senderDevices.length > 0) {
+        await sendToDevices(record.senderId, senderDevices, message);
+    } else if (!(await queueForOfflineUser(storage, ws.userId!, record.senderId, message))) {
+        logger.log({ level: 'warn', message: `Dropped delivered receipt for message ${messageId}: mailbox of ${record.senderId} is full` });
+    }
+    return true;
+}
@@ -1,72 +1,209 @@
 import WebSocket from 'ws';
-import { WebSocketClient, SignalingMessage, MessageType, LoginPayload, RegisterPushPayload } from './types';
-import { saveOrUpdatePushToken, getPushToken } from './db';
-import { sendWsMessage } from './wsUtils'; // Use the utility for sending messages
-import { logger } from './logger';
+import { v4 as uuidv4 } from 'uuid';
+import {
+    WebSocketClient, SignalingMessage, InboundMessage, MessageType, AuthClaims, ErrorCode, ClientMap, LoginSuccessPayload,
+    PushPlatform, PushResultPayload, PushDeliveryStatus, CallState, CallAnsweredElsewherePayload, CallRingingPayload,
+    CallEndedPayload, CallEndReason, ReceiptPayload, RoomJoinedPayload, RoomPeerEventPayload, PresencePayload, ResumedPayload,
+    WelcomePayload
+} from './types';
+import { Storage } from './storage';
+import { authenticator as defaultAuthenticator, Authenticator, AuthError } from './auth';
+import { sendIncomingCallPush } from './push';
+import { addSession } from './sessions';
+import {
+    CallSession, startCall, getCall, findCallBetween, isCallActive, markAnswered, finishCall, endStateFor, sendToCallDevices
+} from './calls';
+import { claimDeviceSession, releaseDeviceSession, locateDevices, sendToDevices, DeviceLocation } from './cluster';
+import { getCallHistoryPage } from './callHistory';
+import { getIceServers } from './ice';
+import { queueForOfflineUser, deliverQueuedMessages, acknowledgeQueuedMessage } from './mailbox';
+import { checkOfflineLookup, recordLoginFailure, rejectRateLimited } from './rateLimit';
+import { joinRoom, leaveRoom, getRoom, replaceRoomMember, toRoomPeer, Room, RoomError } from './rooms';
+import {
+    getPresence, subscribePresence, unsubscribePresence, movePresenceSubscriptions, setPresenceStatus, refreshPresence, PresenceError
+} from './presence';
+import { issueResumeToken, takeOverSession, releaseHeldSession } from './resume';
+import {
+    mayContact, getPrivacySettings, blockUser, unblockUser, addContact, removeContact, setCallPolicy, PrivacyError
+} from './privacy';
+import { negotiateProtocol, checkFeature, hasFeature, ProtocolError } from './protocol';
+import { withoutUnknownFields } from './schemas';
+import { loginsTotal, relayedMessagesTotal, offlinePushLookupsTotal } from './metrics';
+import { sendWsMessage, sendReply, broadcast } from './wsUtils'; // Use the utility for sending messages
+import { moduleLogger } from './logger';
+
+const logger = moduleLogger('handler');
 
 /**
  * Handles incoming WebSocket messages based on their type.
  * @param ws The WebSocket client connection sending the message.
- * @param message The parsed SignalingMessage object.
+ * @param message The message, already validated against its schema (see schemas.ts).
  * @param clients Map of all currently connected clients.
+ * @param storage Where persistent state (push tokens, mailboxes, call history, privacy settings) is kept.
+ * @param authenticator Verifies login tokens; defaults to the one configured from the environment.
  */
 export async function handleWebSocketMessage(
     ws: WebSocketClient,
-    message: SignalingMessage,
-    clients: Map<string, WebSocketClient>
+    message: InboundMessage,
+    clients: ClientMap,
+    storage: Storage,
+    authenticator: Authenticator = defaultAuthenticator
 ): Promise<void> {
     try {
-        switch (message.type) {
-            // 1. Client Identification (Login)
-            case MessageType.Login: {
-                const payload = message.payload as LoginPayload;
-                const userId  = payload?.userId;
+        // Clients that listed features in hello only get those
+        try {
+            checkFeature(ws, message.type);
+        } catch (protocolError) {
+            if (!(protocolError instanceof ProtocolError)) throw protocolError;
+            sendWsMessage(ws, { type: MessageType.Error, payload: { message: protocolError.message, code: protocolError.code }, originalType: message.type });
+            return;
+        }
 
-                if (!userId || typeof userId !== 'string' || userId.trim() === '') {
-                    sendWsMessage(ws, { type: MessageType.Error, payload: { message: 'Valid User ID is required for login' }, originalType: message.type });
+        switch (message.type) {
+            // 0. Protocol negotiation; optional, clients that skip it speak protocol 1
+            case MessageType.Hello: {
+                let welcome: WelcomePayload;
+                try {
+                    welcome = negotiateProtocol(ws, message.payload);
+                } catch (protocolError) {
+                    if (!(protocolError instanceof ProtocolError)) throw protocolError;
+                    sendWsMessage(ws, { type: MessageType.Error, payload: { message: protocolError.message, code: protocolError.code }, originalType: message.type });
                     return;
                 }
+                sendWsMessage(ws, { type: MessageType.Welcome, payload: welcome, replyTo: message.id });
+                break;
+            }
 
-                if (clients.has(userId)) {
-                    logger.log({ level: 'warn', message: `Login attempt failed: User ID ${userId} is already logged in.` });
-                    sendWsMessage(ws, { type: MessageType.Error, payload: { message: `User ID ${userId} is already taken/logged in.` }, originalType: message.type });
-                    ws.terminate(); // Close the new connection trying to use the same ID
+            // 1. Client Identification (Login)
+            case MessageType.Login: {
+                // Logins on one connection run one at a time: both awaits below would otherwise let a second one claim another session
+                if (ws.loggingIn) {
+                    sendWsMessage(ws, { type: MessageType.Error, payload: { message: 'A login is already in progress on this connection', code: ErrorCode.InvalidMessage }, originalType: message.type });
                     return;
                 }
+                ws.loggingIn = true;
+                try {
+                    const token = message.payload.token;
+
+                    let claims: AuthClaims;
+                    if (token) {
+                        try {
+                            claims = await authenticator.authenticate(token);
+                        } catch (authError) {
+                            const code = authError instanceof AuthError ? authError.code : ErrorCode.TokenInvalid;
+                            logger.log({ level: 'warn', message: `Login rejected for ${ws.userId || ws.clientId}: ${authError}` });
+                            loginsTotal.inc('failure');
+                            const decision = recordLoginFailure(ws.remoteAddress!);
+                            if (!decision.allowed) {
+                                rejectRateLimited(ws, decision, message.type);
+                                return;
+                            }
+                            sendWsMessage(ws, { type: MessageType.Error, payload: { message: 'Login token rejected', code }, originalType: message.type });
+                            return;
+                        }
+                    } else if (ws.upgradeAuth) {
+                        claims = ws.upgradeAuth; // Token was already verified during the HTTP upgrade
+                    } else {
+                        sendWsMessage(ws, { type: MessageType.Error, payload: { message: 'A signed token is required for login', code: ErrorCode.AuthRequired }, originalType: message.type });
+                        return;
+                    }
+
+                    // The socket may have closed while the token was verified; nothing has been claimed for it yet
+                    if (ws.readyState !== WebSocket.OPEN) return;
+
+                    const userId   = claims.userId;
+                    const deviceId = message.payload.deviceId;
+
+                    // Logging in again on the same socket refreshes the token expiry
+                    if (ws.userId) {
+                        if (ws.userId !== userId) {
+                            sendWsMessage(ws, { type: MessageType.Error, payload: { message: 'Token belongs to a different user than this session', code: ErrorCode.TokenInvalid }, originalType: message.type });
+                            return;
+                        }
+                        ws.authExpiresAt = claims.expiresAt;
+                        logger.log({ level: 'info', message: `Client ${userId} refreshed its login token` });
+                        const refreshed: LoginSuccessPayload = { userId: userId, deviceId: ws.deviceId!, iceServers: getIceServers(userId), resumeToken: hasFeature(ws, 'resume') ? issueResumeToken(ws) : undefined };
+                        sendReply(ws, { type: MessageType.LoginSuccess, payload: refreshed });
+                        return;
+                    }
+
+                    const sessionDeviceId = deviceId || uuidv4();
+                    // A device logging in again while its dropped session is held here takes that session over, as with resume;
+                    // this instance already holds its claim, and nothing is awaited until the new socket replaces the old one
+                    const held = clients.get(userId)?.get(sessionDeviceId);
+                    const takesOver = !!held && releaseHeldSession(held);
+                    // Checked cluster-wide: the device may be connected to another instance
+                    if (!takesOver && !(await claimDeviceSession(userId, sessionDeviceId))) {
+                        logger.log({ level: 'warn', message: `Login attempt failed: User ID ${userId} is already logged in on device ${sessionDeviceId}.` });
+                        loginsTotal.inc('duplicate_device');
+                        sendWsMessage(ws, { type: MessageType.Error, payload: { message: `User ID ${userId} is already logged in on device ${sessionDeviceId}.`, code: ErrorCode.AlreadyLoggedIn }, originalType: message.type });
+                        ws.terminate(); // Close the new connection trying to use the same device
+                        return;
+                    }
+                    // A socket that closed while the claim was made never gets a session, and its claim must not outlive it
+                    if (!takesOver && ws.readyState !== WebSocket.OPEN) {
+                        logger.log({ level: 'info', message: `Login of ${userId} on device ${sessionDeviceId} abandoned: the connection closed` });
+                        await releaseDeviceSession(userId, sessionDeviceId);
+                        return;
+                    }
 
-                const oldClientId = ws.clientId;
-                delete ws.clientId; // Remove temporary ID
+                    const oldClientId = ws.clientId;
+                    delete ws.clientId; // Remove temporary ID
+                    delete ws.upgradeAuth;
 
-                ws.userId = userId;
-                clients.set(userId, ws); // Add to the centrally managed map
-                logger.log({ level: 'info', message: `Client logged in: ${userId} (was ${oldClientId})` });
+                    ws.userId = userId;
+                    ws.deviceId = sessionDeviceId;
+                    ws.authExpiresAt = claims.expiresAt;
+                    addSession(clients, ws); // Add to the centrally managed map; replaces a held session being taken over
+                    const buffered = held && takesOver ? held.resumeBuffer || [] : [];
+                    if (held && takesOver) {
+                        replaceRoomMember(held, ws);
+                        movePresenceSubscriptions(held, ws);
+                        held.resumeBuffer = []; // Anything still sent to the old socket is swallowed
+                    }
+                    logger.log({ level: 'info', message: `Client logged in: ${userId} on device ${sessionDeviceId} (was ${oldClientId})${takesOver ? `, taking over its held session with ${buffered.length} buffered message(s)` : ''}` });
+                    loginsTotal.inc('success');
 
-                sendWsMessage(ws, { type: MessageType.LoginSuccess, payload: { userId: userId } });
-                // Optional: broadcast(clients, { type: MessageType.UserJoined, payload: { userId } }, ws);
+                    const loginSuccess: LoginSuccessPayload = {
+                        userId:      userId,
+                        deviceId:    sessionDeviceId,
+                        iceServers:  getIceServers(userId),
+                        resumeToken: hasFeature(ws, 'resume') ? issueResumeToken(ws) : undefined
+                    };
+                    sendReply(ws, { type: MessageType.LoginSuccess, payload: loginSuccess });
+                    buffered.forEach(bufferedMessage => sendWsMessage(ws, bufferedMessage));
+                    refreshPresence(storage, userId);
+
+                    // Without offline_messages the client could not acknowledge them; they wait for a device that can
+                    if (hasFeature(ws, 'offline_messages')) {
+                        try {
+                            await deliverQueuedMessages(storage, ws);
+                        } catch (dbError) {
+                            logger.log({ level: 'error', message: `Handler Error: Failed to deliver queued messages to ${userId}: ${dbError}` });
+                        }
+                    }
+                } finally {
+                    delete ws.loggingIn;
+                }
                 break;
             }
 
             // 2. Client Registers Push Token
             case MessageType.RegisterPush: {
                 if (!ws.userId) {
-                    sendWsMessage(ws, { type: MessageType.Error, payload: { message: 'Must be logged in to register push token' }, originalType: message.type });
+                    sendWsMessage(ws, { type: MessageType.Error, payload: { message: 'Must be logged in to register push token', code: ErrorCode.NotLoggedIn }, originalType: message.type });
                     return;
                 }
 
-                const payload   = message.payload as RegisterPushPayload;
-                const pushToken = payload?.pushToken;
-
-                if (!pushToken || typeof pushToken !== 'string' || pushToken.trim() === '') {
-                    sendWsMessage(ws, { type: MessageType.Error, payload: { message: 'Valid push token is required' }, originalType: message.type });
-                    return;
-                }
+                const pushToken = message.payload.pushToken;
+                const platform  = message.payload.platform || PushPlatform.Fcm;
 
                 try {
-                    await saveOrUpdatePushToken(ws.userId, pushToken);
-                    sendWsMessage(ws, { type: MessageType.PushRegistered, payload: { userId: ws.userId } });
+                    await storage.pushTokens.save(ws.userId, ws.deviceId!, pushToken, platform);
+                    sendReply(ws, { type: MessageType.PushRegistered, payload: { userId: ws.userId } });
                 } catch (dbError) {
                     logger.log({ level: 'error', message: `Handler Error: Failed to save push token for ${ws.userId}: ${dbError}` });
-                    sendWsMessage(ws, { type: MessageType.Error, payload: { message: 'Failed to save push token on server' }, originalType: message.type });
+                    sendWsMessage(ws, { type: MessageType.Error, payload: { message: 'Failed to save push token on server', code: ErrorCode.ServerError }, originalType: message.type });
                 }
                 break;
             }
@@ -75,64 +212,605 @@ export async function handleWebSocketMessage(
             case MessageType.Offer:
             case MessageType.Answer:
             case MessageType.Candidate:
-            case MessageType.MessageRequest: {
+            case MessageType.MessageRequest:
+            case MessageType.Reject:
+            case MessageType.Cancel:
+            case MessageType.Hangup:
+            case MessageType.Busy: {
                 const targetId = message.target;
                 const senderId = ws.userId;
 
                 if (!senderId) {
-                    sendWsMessage(ws, { type: MessageType.Error, payload: { message: 'Cannot send message: Not logged in.' }, originalType: message.type });
+                    sendWsMessage(ws, { type: MessageType.Error, payload: { message: 'Cannot send message: Not logged in.', code: ErrorCode.NotLoggedIn }, originalType: message.type });
                     return;
                 }
-                if (!targetId || typeof targetId !== 'string') {
-                    sendWsMessage(ws, { type: MessageType.Error, payload: { message: 'Target user ID is required.' }, originalType: message.type });
+
+                if ('room' in message && message.room !== undefined) {
+                    relayInRoom(ws, withoutUnknownFields(message));
                     return;
                 }
-                if (!message.payload) {
-                    sendWsMessage(ws, { type: MessageType.Error, payload: { message: 'Payload is missing.' }, originalType: message.type });
+
+                // Blocks and call policies apply to making contact: new calls and message requests
+                const startsContact = message.type === MessageType.MessageRequest || (message.type === MessageType.Offer && message.callId === undefined);
+                if (startsContact && !(await mayContact(storage, senderId, targetId))) {
+                    logger.log({ level: 'info', message: `${message.type} from ${senderId} to ${targetId} not permitted; answering as if offline` });
+                    await respondAsUnreachable(ws, storage, message as ContactMessage);
                     return;
                 }
 
-                const targetClient = clients.get(targetId);
+                const targetDevices = await locateDevices(targetId);
 
-                if (targetClient && targetClient.readyState === WebSocket.OPEN) {
-                    // Target online: Forward message
+                if (message.type !== MessageType.MessageRequest) {
+                    await relayCallMessage(ws, storage, message, targetDevices);
+                } else if (targetDevices.length > 0) {
+                    // Target online: Forward message to all of their devices (or the one asked for), on whichever instance they are
+                    const recipients = pickDevices(targetDevices, message.targetDevice);
                     const messageToSend: SignalingMessage = {
-                        ...message,
-                        sender: senderId // Ensure sender ID is attached
+                        ...withoutUnknownFields(message),
+                        sender: senderId, // Ensure sender ID is attached
+                        senderDevice: ws.deviceId
                     };
-                    logger.log({ level: 'info', message: `Forwarding ${message.type} from ${senderId} to ${targetId}` });
-                    sendWsMessage(targetClient, messageToSend);
+                    logger.log({ level: 'info', message: `Forwarding ${message.type} from ${senderId} to ${targetId} (${recipients.length} device(s))` });
+                    await sendToDevices(targetId, recipients, messageToSend);
+                    relayedMessagesTotal.inc(message.type);
                 } else {
-                    // Target offline: Attempt push notification logic
-                    logger.log({ level: 'info', message: `Target client ${targetId} offline. Checking for push token.` });
+                    // Target offline: everything below hits the database and possibly a push provider
+                    const decision = checkOfflineLookup(ws);
+                    if (!decision.allowed) {
+                        rejectRateLimited(ws, decision, message.type);
+                        return;
+                    }
+
+                    // Messages are kept until the target logs in
                     try {
-                        const pushToken = await getPushToken(targetId);
-                        if (pushToken) {
-                            logger.log({ level: 'info', message: `Retrieved push token for offline user ${targetId}. (Push sending NOT implemented)` });
-                            // **** PLACEHOLDER: Trigger actual push notification sending here ****
-                            // await sendPushNotification(pushToken, { /* ... notification content ... */ });
-                            sendWsMessage(ws, { type: MessageType.Info, payload: `User ${targetId} is offline. Push notification required.` });
-                        } else {
-                            logger.log({ level: 'info', message: `No push token found for offline user ${targetId}.` });
-                            sendWsMessage(ws, { type: MessageType.Error, payload: { message: `User ${targetId} is offline and no push token is registered.` }, originalType: message.type });
+                        const messageId = await queueForOfflineUser(storage, senderId, targetId, { ...withoutUnknownFields(message), sender: senderId });
+                        if (!messageId) {
+                            sendWsMessage(ws, { type: MessageType.Error, payload: { message: `Mailbox of ${targetId} is full.`, code: ErrorCode.MailboxFull }, originalType: message.type });
+                            return;
+                        }
+                        const receipt: ReceiptPayload = { messageId, target: targetId };
+                        sendReply(ws, { type: MessageType.Queued, payload: receipt, originalType: message.type });
+                    } catch (dbError) {
+                        logger.log({ level: 'error', message: `Handler Error: Failed to queue message for ${targetId}: ${dbError}` });
+                        sendWsMessage(ws, { type: MessageType.Error, payload: { message: `Server error queueing message for ${targetId}.`, code: ErrorCode.ServerError }, originalType: message.type });
+                        return;
+                    }
+
+                    try {
+                        if ((await pushToOfflineUser(ws, storage, targetId, uuidv4(), message.type)) === null) {
+                            logger.log({ level: 'info', message: `No push token found for offline user ${targetId}; message stays queued.` });
                         }
                     } catch (dbError) {
                         logger.log({ level: 'error', message: `Handler Error: DB error checking push token for ${targetId}: ${dbError}` });
-                        sendWsMessage(ws, { type: MessageType.Error, payload: { message: `Server error checking offline status for ${targetId}.` }, originalType: message.type });
+                        sendWsMessage(ws, { type: MessageType.Error, payload: { message: `Server error checking offline status for ${targetId}.`, code: ErrorCode.ServerError }, originalType: message.type });
+                    }
+                }
+                break;
+            }
+
+            // 4. Acknowledging messages delivered from the offline mailbox
+            case MessageType.MessageAck: {
+                if (!ws.userId) {
+                    sendWsMessage(ws, { type: MessageType.Error, payload: { message: 'Must be logged in to acknowledge messages', code: ErrorCode.NotLoggedIn }, originalType: message.type });
+                    return;
+                }
+
+                const messageId = message.payload.messageId;
+
+                try {
+                    if (!(await acknowledgeQueuedMessage(storage, ws, messageId))) {
+                        logger.log({ level: 'info', message: `${ws.userId} acknowledged unknown or already acknowledged message ${messageId}` });
+                    }
+                } catch (dbError) {
+                    logger.log({ level: 'error', message: `Handler Error: Failed to acknowledge message ${messageId} for ${ws.userId}: ${dbError}` });
+                    sendWsMessage(ws, { type: MessageType.Error, payload: { message: 'Failed to acknowledge message on server', code: ErrorCode.ServerError }, originalType: message.type });
+                }
+                break;
+            }
+
+            // 5. Call history (recents and missed calls)
+            case MessageType.GetCallHistory: {
+                if (!ws.userId) {
+                    sendWsMessage(ws, { type: MessageType.Error, payload: { message: 'Must be logged in to read call history', code: ErrorCode.NotLoggedIn }, originalType: message.type });
+                    return;
+                }
+
+                const { limit, before, filter } = message.payload;
+
+                try {
+                    const page = await getCallHistoryPage(storage, ws.userId, limit, before, filter === 'missed');
+                    if (!page) {
+                        sendWsMessage(ws, { type: MessageType.Error, payload: { message: 'Invalid call history cursor', code: ErrorCode.InvalidMessage }, originalType: message.type });
+                        return;
+                    }
+                    sendReply(ws, { type: MessageType.CallHistory, payload: page });
+                } catch (dbError) {
+                    logger.log({ level: 'error', message: `Handler Error: Failed to read call history for ${ws.userId}: ${dbError}` });
+                    sendWsMessage(ws, { type: MessageType.Error, payload: { message: 'Failed to read call history on server', code: ErrorCode.ServerError }, originalType: message.type });
+                }
+                break;
+            }
+
+            // 6. ICE configuration (STUN/TURN) with fresh TURN credentials
+            case MessageType.GetIceServers: {
+                if (!ws.userId) {
+                    sendWsMessage(ws, { type: MessageType.Error, payload: { message: 'Must be logged in to get ICE servers', code: ErrorCode.NotLoggedIn }, originalType: message.type });
+                    return;
+                }
+                sendReply(ws, { type: MessageType.IceServers, payload: getIceServers(ws.userId) });
+                break;
+            }
+
+            // 7. Rooms (group calls)
+            case MessageType.JoinRoom: {
+                if (!ws.userId) {
+                    sendWsMessage(ws, { type: MessageType.Error, payload: { message: 'Must be logged in to join a room', code: ErrorCode.NotLoggedIn }, originalType: message.type });
+                    return;
+                }
+
+                const { roomId, password } = message.payload;
+
+                let room: Room;
+                try {
+                    room = joinRoom(ws, roomId, password);
+                } catch (roomError) {
+                    if (!(roomError instanceof RoomError)) throw roomError;
+                    logger.log({ level: 'info', message: `${ws.userId} could not join room ${roomId}: ${roomError.message}` });
+                    sendWsMessage(ws, { type: MessageType.Error, payload: { message: roomError.message, code: roomError.code }, originalType: message.type });
+                    return;
+                }
+                logger.log({ level: 'info', message: `${ws.userId} (device ${ws.deviceId}) joined room ${roomId}. Members: ${room.members.size}` });
+
+                const peers = Array.from(room.members).filter(member => member !== ws).map(toRoomPeer);
+                const joined: RoomJoinedPayload = { roomId, peers };
+                sendReply(ws, { type: MessageType.RoomJoined, payload: joined });
+
+                const event: RoomPeerEventPayload = { roomId, peer: toRoomPeer(ws) };
+                broadcast(room.members, { type: MessageType.PeerJoined, payload: event }, ws);
+                break;
+            }
+
+            case MessageType.LeaveRoom: {
+                const roomId = message.payload.roomId;
+
+                const room = leaveRoom(ws, roomId);
+                if (!room) {
+                    sendWsMessage(ws, { type: MessageType.Error, payload: { message: 'Not a member of this room', code: ErrorCode.NotInRoom }, originalType: message.type });
+                    return;
+                }
+                logger.log({ level: 'info', message: `${ws.userId} (device ${ws.deviceId}) left room ${roomId}. Members: ${room.members.size}` });
+
+                const event: RoomPeerEventPayload = { roomId, peer: toRoomPeer(ws) };
+                broadcast(room.members, { type: MessageType.PeerLeft, payload: event });
+                break;
+            }
+
+            // 8. Presence of other users, and of this user
+            case MessageType.SubscribePresence: {
+                if (!ws.userId) {
+                    sendWsMessage(ws, { type: MessageType.Error, payload: { message: 'Must be logged in to subscribe to presence', code: ErrorCode.NotLoggedIn }, originalType: message.type });
+                    return;
+                }
+
+                let users: PresencePayload['users'];
+                try {
+                    users = await subscribePresence(storage, ws, message.payload.userIds);
+                } catch (presenceError) {
+                    if (!(presenceError instanceof PresenceError)) throw presenceError;
+                    sendWsMessage(ws, { type: MessageType.Error, payload: { message: presenceError.message, code: presenceError.code }, originalType: message.type });
+                    return;
+                }
+                const snapshot: PresencePayload = { users };
+                sendReply(ws, { type: MessageType.Presence, payload: snapshot });
+                break;
+            }
+
+            case MessageType.UnsubscribePresence: {
+                unsubscribePresence(ws, message.payload.userIds);
+                break;
+            }
+
+            case MessageType.GetPresence: {
+                if (!ws.userId) {
+                    sendWsMessage(ws, { type: MessageType.Error, payload: { message: 'Must be logged in to query presence', code: ErrorCode.NotLoggedIn }, originalType: message.type });
+                    return;
+                }
+                const presence: PresencePayload = { users: await getPresence(storage, message.payload.userIds, ws.userId) };
+                sendReply(ws, { type: MessageType.Presence, payload: presence });
+                break;
+            }
+
+            case MessageType.SetPresence: {
+                if (!ws.userId) {
+                    sendWsMessage(ws, { type: MessageType.Error, payload: { message: 'Must be logged in to set presence', code: ErrorCode.NotLoggedIn }, originalType: message.type });
+                    return;
+                }
+                await setPresenceStatus(storage, ws.userId, message.payload.status);
+                logger.log({ level: 'info', message: `${ws.userId} set presence to ${message.payload.status}` });
+                break;
+            }
+
+            // 9. Reattaching a dropped device session to this new connection
+            case MessageType.Resume: {
+                if (ws.userId || ws.loggingIn) {
+                    sendWsMessage(ws, { type: MessageType.Error, payload: { message: 'This connection is already logged in', code: ErrorCode.AlreadyLoggedIn }, originalType: message.type });
+                    return;
+                }
+
+                const old = takeOverSession(message.payload.token);
+                if (!old) {
+                    logger.log({ level: 'warn', message: `Resume rejected for ${ws.clientId}: unknown or expired token` });
+                    loginsTotal.inc('failure');
+                    const decision = recordLoginFailure(ws.remoteAddress!);
+                    if (!decision.allowed) {
+                        rejectRateLimited(ws, decision, message.type);
+                        return;
                     }
+                    sendWsMessage(ws, { type: MessageType.Error, payload: { message: 'Session cannot be resumed; log in again', code: ErrorCode.ResumeFailed }, originalType: message.type });
+                    return;
+                }
+
+                // Everything up to the replay happens synchronously, so no message can slip in between
+                const buffered = old.resumeBuffer || [];
+                delete ws.clientId;
+                delete ws.upgradeAuth;
+                ws.userId = old.userId;
+                ws.deviceId = old.deviceId;
+                ws.authExpiresAt = old.authExpiresAt;
+                addSession(clients, ws); // Replaces the old connection, whose close then no longer removes the session
+                replaceRoomMember(old, ws);
+                movePresenceSubscriptions(old, ws);
+                loginsTotal.inc('resumed');
+                logger.log({ level: 'info', message: `Client ${ws.userId} resumed device ${ws.deviceId}; replaying ${buffered.length} message(s)` });
+
+                const resumed: ResumedPayload = { userId: ws.userId!, deviceId: ws.deviceId!, resumeToken: issueResumeToken(ws), replayed: buffered.length };
+                sendReply(ws, { type: MessageType.Resumed, payload: resumed });
+                buffered.forEach(bufferedMessage => sendWsMessage(ws, bufferedMessage));
+                old.resumeBuffer = [];
+                break;
+            }
+
+            // 10. Block list, contacts and call policy
+            case MessageType.BlockUser:
+            case MessageType.UnblockUser:
+            case MessageType.AddContact:
+            case MessageType.RemoveContact:
+            case MessageType.SetCallPolicy:
+            case MessageType.GetPrivacy: {
+                if (!ws.userId) {
+                    sendWsMessage(ws, { type: MessageType.Error, payload: { message: 'Must be logged in to manage privacy settings', code: ErrorCode.NotLoggedIn }, originalType: message.type });
+                    return;
+                }
+
+                try {
+                    if (message.type === MessageType.BlockUser) await blockUser(storage, ws.userId, message.payload.userId);
+                    else if (message.type === MessageType.UnblockUser) await unblockUser(storage, ws.userId, message.payload.userId);
+                    else if (message.type === MessageType.AddContact) await addContact(storage, ws.userId, message.payload.userId);
+                    else if (message.type === MessageType.RemoveContact) await removeContact(storage, ws.userId, message.payload.userId);
+                    else if (message.type === MessageType.SetCallPolicy) await setCallPolicy(storage, ws.userId, message.payload.policy);
+                } catch (privacyError) {
+                    if (!(privacyError instanceof PrivacyError)) throw privacyError;
+                    sendWsMessage(ws, { type: MessageType.Error, payload: { message: privacyError.message, code: privacyError.code }, originalType: message.type });
+                    return;
                 }
+                // Every change is answered with the resulting settings
+                sendReply(ws, { type: MessageType.Privacy, payload: await getPrivacySettings(storage, ws.userId), originalType: message.type });
                 break;
             }
 
-            // Default case for unknown message types
-            default:
-                logger.log({ level: 'warn', message: `Unknown message type received: ${message.type}` });
-                sendWsMessage(ws, { type: MessageType.Error, payload: { message: `Unknown message type: ${message.type}` } });
+            // Default case for unknown message types (normally already rejected by validation)
+            default: {
+                const unknownType = (message as SignalingMessage).type;
+                logger.log({ level: 'warn', message: `Unknown message type received: ${unknownType}` });
+                sendWsMessage(ws, { type: MessageType.Error, payload: { message: `Unknown message type: ${unknownType}`, code: ErrorCode.UnknownMessageType } });
                 break;
+            }
         }
     } catch (error) {
         // Generic error handler for the switch statement
         logger.log({ level: 'error', message: `Error processing message type ${message.type} for ${ws.userId || ws.clientId}: ${error}` });
-        sendWsMessage(ws, { type: MessageType.Error, payload: { message: `Server error handling message type ${message.type}` }, originalType: message.type });
+        sendWsMessage(ws, { type: MessageType.Error, payload: { message: `Server error handling message type ${message.type}`, code: ErrorCode.ServerError }, originalType: message.type });
+    }
+}
+
+// Offers, answers, candidates and call control messages outside of rooms
+type CallMessage = Extract<InboundMessage, { type: MessageType.Offer | MessageType.Answer | MessageType.Candidate | MessageType.Reject | MessageType.Cancel | MessageType.Hangup | MessageType.Busy }>;
+
+// Messages that make contact with a user and are subject to their blocks and call policy
+type ContactMessage = Extract<InboundMessage, { type: MessageType.Offer | MessageType.MessageRequest }>;
+
+// The device asked for, or all of them if it is not connected
+function pickDevices(devices: DeviceLocation[], deviceId: string | undefined): DeviceLocation[] {
+    const device = deviceId !== undefined ? devices.find(candidate => candidate.deviceId === deviceId) : undefined;
+    return device ? [device] : devices;
+}
+
+function isCallControl(type: MessageType): boolean {
+    return type === MessageType.Reject || type === MessageType.Cancel || type === MessageType.Hangup || type === MessageType.Busy;
+}
+
+// Whether a participant may send this message type in the call's current (active) state
+function isAllowedInState(call: CallSession, type: MessageType, fromCaller: boolean): boolean {
+    switch (type) {
+        case MessageType.Offer:  return call.state === CallState.Answered; // Renegotiation
+        case MessageType.Answer: return !fromCaller;
+        case MessageType.Reject:
+        case MessageType.Busy:   return !fromCaller && call.state === CallState.Ringing;
+        case MessageType.Cancel: return fromCaller && call.state === CallState.Ringing;
+        default:                 return true;
     }
 }
+
+/**
+ * Relays a message within its call. An offer without a callId starts a new call that rings all of
+ * the target's devices; once a device has answered, further messages only go to that device.
+ * Keeps the sending side's copy of the call up to date.
+ * @param ws The sending device.
+ * @param storage Where push tokens and call records are kept.
+ * @param message The message to relay.
+ * @param targetDevices The target's connected devices.
+ */
+async function relayCallMessage(ws: WebSocketClient, storage: Storage, message: CallMessage, targetDevices: DeviceLocation[]): Promise<void> {
+    const senderId = ws.userId!;
+    const targetId = message.target;
+    const sendError = (code: ErrorCode, text: string) => {
+        sendWsMessage(ws, { type: MessageType.Error, payload: { message: text, code }, originalType: message.type });
+    };
+
+    const isNewCall = message.type === MessageType.Offer && message.callId === undefined;
+    let call: CallSession;
+    if (isNewCall) {
+        call = startCall(uuidv4(), senderId, ws.deviceId!, targetId, storage);
+    } else {
+        const found = message.callId !== undefined ? getCall(message.callId) : findCallBetween(senderId, targetId);
+        const isCaller = !!found && found.callerId === senderId && found.callerDevice === ws.deviceId && found.calleeId === targetId;
+        const isCallee = !!found && !isCaller && found.calleeId === senderId && found.callerId === targetId;
+        if (!found || (!isCaller && !isCallee)) {
+            sendError(ErrorCode.UnknownCall, `No call with ${targetId} to send ${message.type} to.`);
+            return;
+        }
+        if (!isCallActive(found)) {
+            sendError(ErrorCode.CallFinished, `Call ${found.callId} is already ${found.state}.`);
+            return;
+        }
+        if (isCallee && found.answeredBy && found.answeredBy !== ws.deviceId) {
+            sendError(ErrorCode.CallClaimed, 'Call was already answered on another device.');
+            return;
+        }
+        if (!isAllowedInState(found, message.type, isCaller)) {
+            sendError(ErrorCode.InvalidCallState, `Cannot send ${message.type} while call ${found.callId} is ${found.state}.`);
+            return;
+        }
+        call = found;
+    }
+
+    const fromCaller = call.callerId === senderId && call.callerDevice === ws.deviceId;
+    const recipients = !fromCaller
+        ? targetDevices.filter(device => device.deviceId === call.callerDevice)
+        : call.answeredBy
+            ? targetDevices.filter(device => device.deviceId === call.answeredBy)
+            : pickDevices(targetDevices, message.targetDevice);
+
+    // The caller device's instance decides which answer claims the call; elsewhere the claim is provisional
+    if (message.type === MessageType.Answer && !call.authoritative) markAnswered(call, ws.deviceId!);
+    const endState = isCallControl(message.type) ? endStateFor(call, message.type, senderId) : undefined;
+    if (endState) finishCall(call, endState, message.type as CallEndReason);
+
+    const messageToSend: SignalingMessage = {
+        ...withoutUnknownFields(message),
+        callId: call.callId,
+        sender: senderId, // Ensure sender ID is attached
+        senderDevice: ws.deviceId
+    };
+    const ringing: CallRingingPayload = { callId: call.callId, target: targetId };
+
+    if (recipients.length > 0) {
+        logger.log({ level: 'info', message: `Forwarding ${message.type} of call ${call.callId} from ${senderId} to ${targetId} (${recipients.length} device(s))`, callId: call.callId });
+        await sendToDevices(targetId, recipients, messageToSend);
+        relayedMessagesTotal.inc(message.type);
+        if (isNewCall) sendReply(ws, { type: MessageType.CallRinging, payload: ringing, callId: call.callId });
+    } else if (isNewCall) {
+        // Target offline: only new calls wake a device, via push
+        const decision = checkOfflineLookup(ws);
+        if (!decision.allowed) {
+            finishCall(call, CallState.Missed, 'unreachable');
+            rejectRateLimited(ws, decision, message.type);
+            return;
+        }
+        try {
+            const status = await pushToOfflineUser(ws, storage, targetId, call.callId, message.type);
+            if (status === PushDeliveryStatus.Delivered) {
+                sendReply(ws, { type: MessageType.CallRinging, payload: ringing, callId: call.callId });
+            } else {
+                finishCall(call, CallState.Missed, 'unreachable');
+                if (status === null) {
+                    logger.log({ level: 'info', message: `No push token found for offline user ${targetId}.` });
+                    sendError(ErrorCode.UserOffline, `User ${targetId} is offline and no push token is registered.`);
+                }
+            }
+        } catch (dbError) {
+            finishCall(call, CallState.Missed, 'unreachable');
+            logger.log({ level: 'error', message: `Handler Error: DB error checking push token for ${targetId}: ${dbError}` });
+            sendError(ErrorCode.ServerError, `Server error checking offline status for ${targetId}.`);
+        }
+    } else if (!endState) {
+        // Mid-call messages for a device that is gone are just dropped; ending a call needs no recipient
+        logger.log({ level: 'info', message: `Target client ${targetId} offline. Dropping ${message.type} from ${senderId}.` });
+        sendError(ErrorCode.UserOffline, `User ${targetId} is offline.`);
+    }
+
+    // Declining on one device stops the call ringing on the callee's other devices
+    if (!fromCaller && endState === CallState.Rejected) {
+        sendToCallDevices(senderId, messageToSend, deviceId => deviceId !== ws.deviceId);
+    }
+}
+
+/**
+ * Sends an incoming call/message push to every registered device of an offline user and
+ * reports the outcome to the sender with push_result.
+ * @param ws The sending device.
+ * @param storage Where push tokens are kept.
+ * @param targetId The offline user.
+ * @param callId Identifies the call (or message) in the push.
+ * @param messageType The message that triggered the push.
+ * @returns The overall outcome, or null if the user has no push token.
+ */
+async function pushToOfflineUser(ws: WebSocketClient, storage: Storage, targetId: string, callId: string, messageType: MessageType): Promise<PushDeliveryStatus | null> {
+    logger.log({ level: 'info', message: `Target client ${targetId} offline. Checking for push tokens.` });
+    const tokenRecords = await storage.pushTokens.list(targetId);
+    if (tokenRecords.length === 0) {
+        offlinePushLookupsTotal.inc('no_token');
+        return null;
+    }
+
+    const devices = await Promise.all(tokenRecords.map(async (record) => {
+        const result = await sendIncomingCallPush(storage, targetId, record.pushToken, record.platform, {
+            callerId:    ws.userId!,
+            callId:      callId,
+            messageType: messageType
+        });
+        return { deviceId: record.deviceId, status: result.status };
+    }));
+    const resultPayload: PushResultPayload = { target: targetId, callId, status: summarizePushResults(devices), devices };
+    offlinePushLookupsTotal.inc(resultPayload.status);
+    sendReply(ws, { type: MessageType.PushResult, payload: resultPayload, originalType: messageType });
+    return resultPayload.status;
+}
+
+/**
+ * Delivers a message to a device connected to this instance, whether it was sent by a device on
+ * this instance or forwarded by another one. Keeps the receiving side's copy of the call up to date;
+ * the caller device's instance decides which callee device claimed a call.
+ * @param ws The receiving device.
+ * @param message The message to deliver.
+ */
+export function deliverToDevice(ws: WebSocketClient, message: SignalingMessage): void {
+    const senderId     = message.sender;
+    const senderDevice = message.senderDevice;
+
+    if (message.callId && senderId && senderDevice && message.room === undefined) {
+        if (!trackCallMessage(ws, message, message.callId, senderId, senderDevice)) return;
+    }
+
+    if (message.type === MessageType.CallAnsweredElsewhere) {
+        const notice = message.payload as CallAnsweredElsewherePayload;
+        const call   = getCall(notice.callId);
+        if (call) markAnswered(call, notice.deviceId);
+    }
+
+    if (message.type === MessageType.CallEnded) {
+        const ended = message.payload as CallEndedPayload;
+        const call  = getCall(ended.callId);
+        if (call) finishCall(call, ended.state, ended.reason);
+    }
+
+    sendWsMessage(ws, message);
+}
+
+/**
+ * Applies a relayed call message to this instance's copy of the call.
+ * @returns False if the message must not be delivered (an answer that lost the race).
+ */
+function trackCallMessage(ws: WebSocketClient, message: SignalingMessage, callId: string, senderId: string, senderDevice: string): boolean {
+    const call = getCall(callId);
+
+    if (message.type === MessageType.Offer) {
+        if (!call) startCall(callId, senderId, senderDevice, ws.userId!, null);
+        return true;
+    }
+    if (!call) return true;
+
+    if (message.type === MessageType.Answer && call.callerDevice === ws.deviceId) {
+        if (!isCallActive(call)) return false;
+        if (call.state === CallState.Ringing) {
+            // First answer claims the call; the callee's other devices stop ringing
+            markAnswered(call, senderDevice);
+            notifyAnsweredElsewhere(call, deviceId => deviceId !== senderDevice);
+        } else if (call.answeredBy !== senderDevice) {
+            // Late answer from another device: it lost the race
+            notifyAnsweredElsewhere(call, deviceId => deviceId === senderDevice);
+            return false;
+        }
+    }
+
+    if (isCallControl(message.type) && isCallActive(call)) {
+        finishCall(call, endStateFor(call, message.type, senderId), message.type as CallEndReason);
+    }
+    return true;
+}
+
+/**
+ * Answers a call or message request the target does not accept like one to a target that is offline
+ * without push tokens (same rate limit, error or receipt), so that blocked senders cannot tell.
+ * No call is recorded: the refused caller must not appear in the target's call history.
+ * @param ws The sending device.
+ * @param storage Where offline message IDs come from.
+ * @param message The offer starting a call, or the message request.
+ */
+async function respondAsUnreachable(ws: WebSocketClient, storage: Storage, message: ContactMessage): Promise<void> {
+    const targetId = message.target;
+    if (message.type === MessageType.Offer) {
+        const decision = checkOfflineLookup(ws);
+        if (!decision.allowed) {
+            rejectRateLimited(ws, decision, message.type);
+            return;
+        }
+        sendWsMessage(ws, { type: MessageType.Error, payload: { message: `User ${targetId} is offline and no push token is registered.`, code: ErrorCode.UserOffline }, originalType: message.type });
+        return;
+    }
+
+    const decision = checkOfflineLookup(ws);
+    if (!decision.allowed) {
+        rejectRateLimited(ws, decision, message.type);
+        return;
+    }
+    // A real ID from the mailbox sequence; the message itself is dropped and no delivered receipt follows
+    const receipt: ReceiptPayload = { messageId: await storage.offlineMessages.reserveId(), target: targetId };
+    sendReply(ws, { type: MessageType.Queued, payload: receipt, originalType: message.type });
+}
+
+/**
+ * Tells callee devices that another device answered the call.
+ * @param call The answered call.
+ * @param shouldNotify Selects the callee devices to notify.
+ */
+function notifyAnsweredElsewhere(call: CallSession, shouldNotify: (deviceId: string) => boolean): void {
+    const notice: CallAnsweredElsewherePayload = { callId: call.callId, callerId: call.callerId, deviceId: call.answeredBy! };
+    sendToCallDevices(call.calleeId, { type: MessageType.CallAnsweredElsewhere, payload: notice, callId: call.callId }, shouldNotify);
+}
+
+// Overall push outcome: delivered if any device was reached
+function summarizePushResults(devices: Array<{ status: PushDeliveryStatus }>): PushDeliveryStatus {
+    if (devices.some(device => device.status === PushDeliveryStatus.Delivered)) return PushDeliveryStatus.Delivered;
+    if (devices.every(device => device.status === PushDeliveryStatus.Unregistered)) return PushDeliveryStatus.Unregistered;
+    return PushDeliveryStatus.Failed;
+}
+
+/**
+ * Relays an offer/answer/candidate between members of the room named in message.room.
+ * The target is a user ID, optionally narrowed down to one device with message.targetDevice.
+ * @param ws The sending device, which must be a member of the room.
+ * @param message The message to relay.
+ */
+function relayInRoom(ws: WebSocketClient, message: SignalingMessage): void {
+    const room = typeof message.room === 'string' ? getRoom(message.room) : undefined;
+    if (!room || !room.members.has(ws)) {
+        sendWsMessage(ws, { type: MessageType.Error, payload: { message: 'Not a member of this room', code: ErrorCode.NotInRoom }, originalType: message.type });
+        return;
+    }
+
+    const recipients = Array.from(room.members).filter(member =>
+        member !== ws &&
+        member.userId === message.target &&
+        (message.targetDevice === undefined || member.deviceId === message.targetDevice)
+    );
+    if (recipients.length === 0) {
+        sendWsMessage(ws, { type: MessageType.Error, payload: { message: `User ${message.target} is not in room ${room.id}`, code: ErrorCode.NotInRoom }, originalType: message.type });
+        return;
+    }
+
+    const messageToSend: SignalingMessage = { ...message, sender: ws.userId, senderDevice: ws.deviceId };
+    logger.log({ level: 'info', message: `Forwarding ${message.type} in room ${room.id} from ${ws.userId} to ${message.target} (${recipients.length} device(s))` });
+    recipients.forEach(recipient => sendWsMessage(recipient, messageToSend));
+    relayedMessagesTotal.inc(message.type);
+}
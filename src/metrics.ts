@@ -0,0 +1,89 @@
+// Minimal Prometheus text exposition (format 0.0.4): counters, optionally with one label, and gauges read on scrape
+
+type Labels = Record<string, string>;
+
+interface Metric {
+    name: string;
+    help: string;
+    type: 'counter' | 'gauge';
+    samples(): Array<{ labels?: Labels; value: number }>;
+}
+
+const registry: Metric[] = [];
+
+export interface Counter {
+    inc(label?: string, amount?: number): void;
+}
+
+function escapeLabelValue(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels?: Labels): string {
+    if (!labels || Object.keys(labels).length === 0) return '';
+    return `{${Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+/**
+ * Registers a counter.
+ * @param name Metric name, ending in _total.
+ * @param help Description shown by Prometheus.
+ * @param labelName Name of the counter's label, if it has one; inc() then takes the label value.
+ */
+export function counter(name: string, help: string, labelName?: string): Counter {
+    const values = new Map<string, number>();
+    if (!labelName) values.set('', 0); // Exposed before the first increment
+    registry.push({
+        name, help, type: 'counter',
+        samples: () => Array.from(values, ([label, value]) => ({ labels: labelName ? { [labelName]: label } : undefined, value }))
+    });
+    return {
+        inc(label = '', amount = 1) {
+            values.set(label, (values.get(label) || 0) + amount);
+        }
+    };
+}
+
+/**
+ * Registers a gauge whose value is read at scrape time.
+ * @param name Metric name.
+ * @param help Description shown by Prometheus.
+ * @param collect Returns the value, or values by label (e.g. { idle: 3 } with labelName 'state').
+ * @param labelName Name of the label used for the keys returned by collect.
+ * Registering a name again replaces the earlier gauge, e.g. when a server is restarted in the same process.
+ */
+export function gauge(name: string, help: string, collect: () => number | Record<string, number>, labelName?: string): void {
+    const existing = registry.findIndex(metric => metric.name === name);
+    if (existing >= 0) registry.splice(existing, 1);
+    registry.push({
+        name, help, type: 'gauge',
+        samples: () => {
+            const value = collect();
+            if (typeof value === 'number') return [{ value }];
+            return Object.entries(value).map(([label, labelValue]) => ({ labels: { [labelName || 'label']: label }, value: labelValue }));
+        }
+    });
+}
+
+/**
+ * Renders every registered metric for a /metrics scrape.
+ */
+export function renderMetrics(): string {
+    const lines: string[] = [];
+    registry.forEach((metric) => {
+        lines.push(`# HELP ${metric.name} ${metric.help}`);
+        lines.push(`# TYPE ${metric.name} ${metric.type}`);
+        metric.samples().forEach(sample => lines.push(`${metric.name}${formatLabels(sample.labels)} ${sample.value}`));
+    });
+    return lines.join('\n') + '\n';
+}
+
+// --- Signaling metrics ---
+
+export const connectionsTotal           = counter('signaling_connections_total', 'WebSocket connections accepted');
+export const loginsTotal                = counter('signaling_logins_total', 'Login attempts by result', 'result');
+export const relayedMessagesTotal       = counter('signaling_relayed_messages_total', 'Messages relayed to other devices, by message type', 'type');
+export const offlinePushLookupsTotal    = counter('signaling_offline_push_lookups_total', 'Push lookups for offline targets, by outcome', 'result');
+export const errorsTotal                = counter('signaling_errors_total', 'Error messages sent to clients, by error code', 'code');
+export const rateLimitedTotal           = counter('signaling_rate_limited_total', 'Client messages refused by rate limits');
+export const heartbeatTerminationsTotal = counter('signaling_heartbeat_terminations_total', 'Connections terminated for missing heartbeats');
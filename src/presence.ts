@@ -0,0 +1,282 @@
+import * as dotenv from 'dotenv';
+import { WebSocketClient, SignalingMessage, MessageType, ErrorCode, PresenceInfo, PresencePayload, PresenceStatus, CallState } from './types';
+import { locateDevices, onClusterEvent, publishClusterEvent } from './cluster';
+import { CallSession, onCallStateChange } from './calls';
+import { Storage } from './storage';
+import { sendWsMessage } from './wsUtils';
+import { moduleLogger } from './logger';
+
+dotenv.config();
+
+const logger = moduleLogger('presence');
+
+// Maximum number of users one connection may subscribe to
+export const MAX_PRESENCE_SUBSCRIPTIONS = parseInt(process.env.PRESENCE_MAX_SUBSCRIPTIONS || '500', 10);
+
+const PRESENCE_TOPIC      = 'presence';
+const PRESENCE_HIDE_TOPIC = 'presence_hide'; // A user blocked a viewer: appear offline to them
+const PRESENCE_SHOW_TOPIC = 'presence_show'; // ...and unblocked them again
+const PRESENCE_CALL_TOPIC = 'presence_call'; // A call of the user was answered (busy) or finished
+
+// Raised when a subscription is refused; `code` is sent back to the client
+export class PresenceError extends Error {
+    constructor(public readonly code: ErrorCode, message: string) {
+        super(message);
+        this.name = 'PresenceError';
+    }
+}
+
+// Subscriptions of the devices connected to this instance: watched userId -> subscribed devices
+const watchers = new Map<string, Set<WebSocketClient>>();
+// The same subscriptions per device, to enforce the limit and clean up on disconnect
+const subscriptions = new Map<WebSocketClient, Set<string>>();
+// Last presence sent to this instance's subscribers of a user, so that repeated updates are dropped
+const lastSent = new Map<string, string>();
+// Watched userId -> subscribed users they blocked; those see the user offline and get no updates
+const hiddenFrom = new Map<string, Set<string>>();
+// Users in an answered call anywhere in the cluster -> IDs of those calls, as announced by the calls' authoritative copies
+const answeredCalls = new Map<string, Set<string>>();
+
+// Payload of PRESENCE_CALL_TOPIC events
+interface CallActivity {
+    callId:   string;
+    answered: boolean; // False once the call finished
+}
+
+/**
+ * Starts distributing presence changes: updates published by any instance reach the subscribers
+ * on this one, and answered or finished calls make their participants busy or available.
+ * @param storage Where statuses and last seen times are kept.
+ */
+export function startPresence(storage: Storage): void {
+    onClusterEvent(PRESENCE_TOPIC, deliverPresence);
+    onClusterEvent(PRESENCE_HIDE_TOPIC, (userId, message) => applyVisibility(userId, message, true));
+    onClusterEvent(PRESENCE_SHOW_TOPIC, (userId, message) => applyVisibility(userId, message, false));
+    onClusterEvent(PRESENCE_CALL_TOPIC, (userId, message) => applyCallActivity(userId, message.payload as CallActivity));
+    onCallStateChange(call => announceCallActivity(storage, call));
+}
+
+// Every instance keeping a copy of the call sees it change, but only the authoritative copy tells the cluster, so that
+// the announcements of one call arrive everywhere in order. Presence is refreshed once the other instances have been told.
+function announceCallActivity(storage: Storage, call: CallSession): void {
+    if (!call.authoritative) return;
+    const activity: CallActivity = { callId: call.callId, answered: call.state === CallState.Answered };
+    [call.callerId, call.calleeId].forEach((userId) => {
+        applyCallActivity(userId, activity);
+        publishClusterEvent(PRESENCE_CALL_TOPIC, userId, { type: MessageType.Info, payload: activity }).catch((error) => {
+            logger.log({ level: 'error', message: `Presence: failed to announce call ${call.callId} of ${userId}: ${error}`, callId: call.callId });
+        }).then(() => refreshPresence(storage, userId));
+    });
+}
+
+function applyCallActivity(userId: string, activity: CallActivity): void {
+    const callIds = answeredCalls.get(userId) || new Set<string>();
+    if (activity.answered) {
+        answeredCalls.set(userId, callIds.add(activity.callId));
+    } else {
+        callIds.delete(activity.callId);
+        if (callIds.size === 0) answeredCalls.delete(userId);
+    }
+}
+
+/**
+ * Reads the current presence of several users. A user is online (or the status they chose) while
+ * any of their devices is connected, busy while in an answered call, and offline otherwise.
+ * @param storage Where statuses, last seen times and block lists are kept.
+ * @param userIds The users.
+ * @param viewerId The user asking; users who blocked them appear offline.
+ */
+export async function getPresence(storage: Storage, userIds: string[], viewerId?: string): Promise<PresenceInfo[]> {
+    return (await readPresence(storage, userIds, viewerId)).users;
+}
+
+async function readPresence(storage: Storage, userIds: string[], viewerId?: string): Promise<{ users: PresenceInfo[]; blockers: Map<string, Date> }> {
+    const unique = Array.from(new Set(userIds));
+    const [records, devices, blockers] = await Promise.all([
+        storage.presence.get(unique),
+        Promise.all(unique.map(userId => locateDevices(userId))),
+        viewerId !== undefined ? storage.privacy.blockersAmong(viewerId, unique) : Promise.resolve(new Map<string, Date>())
+    ]);
+    const users = unique.map((userId, i): PresenceInfo => {
+        const record = records.get(userId);
+        // A blocker looks like a user who went offline when they blocked the viewer (they were connected then)
+        const blockedAt = blockers.get(userId);
+        if (blockedAt) return { userId, status: PresenceStatus.Offline, lastSeen: blockedAt.toISOString() };
+        if (devices[i].length === 0) {
+            return { userId, status: PresenceStatus.Offline, lastSeen: record?.lastSeenAt?.toISOString() };
+        }
+        const status = answeredCalls.has(userId) ? PresenceStatus.Busy : record?.status ?? PresenceStatus.Online;
+        return { userId, status };
+    });
+    return { users, blockers };
+}
+
+/**
+ * Subscribes a device to presence updates of some users.
+ * @param storage Where statuses, last seen times and block lists are kept.
+ * @param ws The subscribing device.
+ * @param userIds The users to watch.
+ * @returns The current presence of those users.
+ * @throws PresenceError if the connection would exceed MAX_PRESENCE_SUBSCRIPTIONS.
+ */
+export async function subscribePresence(storage: Storage, ws: WebSocketClient, userIds: string[]): Promise<PresenceInfo[]> {
+    const current = subscriptions.get(ws) || new Set<string>();
+    const added = userIds.filter(userId => !current.has(userId));
+    if (current.size + new Set(added).size > MAX_PRESENCE_SUBSCRIPTIONS) {
+        throw new PresenceError(ErrorCode.SubscriptionLimit, `At most ${MAX_PRESENCE_SUBSCRIPTIONS} presence subscriptions per connection`);
+    }
+
+    const { users, blockers } = await readPresence(storage, userIds, ws.userId);
+    subscriptions.set(ws, current);
+    added.forEach((userId) => {
+        current.add(userId);
+        let devices = watchers.get(userId);
+        if (!devices) {
+            devices = new Set();
+            watchers.set(userId, devices);
+        }
+        devices.add(ws);
+    });
+    blockers.forEach((_, userId) => setHidden(userId, ws.userId!, true));
+    return users;
+}
+
+/**
+ * Stops presence updates of some users for a device.
+ * @param ws The device.
+ * @param userIds The users to stop watching.
+ */
+export function unsubscribePresence(ws: WebSocketClient, userIds: string[]): void {
+    const current = subscriptions.get(ws);
+    if (!current) return;
+    userIds.forEach((userId) => {
+        if (!current.delete(userId)) return;
+        const devices = watchers.get(userId);
+        devices?.delete(ws);
+        if (devices?.size === 0) {
+            watchers.delete(userId);
+            lastSent.delete(userId);
+            hiddenFrom.delete(userId);
+        }
+    });
+    if (current.size === 0) subscriptions.delete(ws);
+}
+
+/**
+ * Drops every presence subscription of a device, e.g. when it disconnects.
+ * @param ws The device.
+ */
+export function dropPresenceSubscriptions(ws: WebSocketClient): void {
+    const current = subscriptions.get(ws);
+    if (current) unsubscribePresence(ws, Array.from(current));
+}
+
+/**
+ * Moves the presence subscriptions of a connection to a new one, e.g. when a device resumes its session.
+ * @param oldWs The replaced connection.
+ * @param newWs The connection taking its place.
+ */
+export function movePresenceSubscriptions(oldWs: WebSocketClient, newWs: WebSocketClient): void {
+    const current = subscriptions.get(oldWs);
+    if (!current) return;
+    subscriptions.delete(oldWs);
+    subscriptions.set(newWs, current);
+    current.forEach((userId) => {
+        const devices = watchers.get(userId)!;
+        devices.delete(oldWs);
+        devices.add(newWs);
+    });
+}
+
+/**
+ * Stores the status a user chose and tells their subscribers.
+ * @param storage Where the status is kept.
+ * @param userId The user.
+ * @param status Online, away or busy; shown while the user has a device connected.
+ */
+export async function setPresenceStatus(storage: Storage, userId: string, status: PresenceStatus): Promise<void> {
+    await storage.presence.saveStatus(userId, status);
+    refreshPresence(storage, userId);
+}
+
+/**
+ * Updates the user's presence after one of their devices disconnected. Once the last device is
+ * gone the time is stored as the user's last seen time.
+ * Call after the device session has been released from the cluster.
+ * @param storage Where the last seen time is kept.
+ * @param userId The user.
+ */
+export async function deviceDisconnected(storage: Storage, userId: string): Promise<void> {
+    try {
+        const devices = await locateDevices(userId);
+        if (devices.length === 0) await storage.presence.saveLastSeen(userId, new Date());
+    } catch (error) {
+        logger.log({ level: 'error', message: `Presence: failed to record last seen time of ${userId}: ${error}` });
+    }
+    await refreshPresence(storage, userId);
+}
+
+/**
+ * Works out the user's presence and publishes it to the subscribers on every instance. Failures are logged, never thrown.
+ * @param storage Where statuses and last seen times are kept.
+ * @param userId The user whose presence may have changed.
+ */
+export function refreshPresence(storage: Storage, userId: string): Promise<void> {
+    return getPresence(storage, [userId]).then(([info]) => {
+        const payload: PresencePayload = { users: [info] };
+        return publishClusterEvent(PRESENCE_TOPIC, userId, { type: MessageType.Presence, payload });
+    }).catch((error) => {
+        logger.log({ level: 'error', message: `Presence: failed to publish presence of ${userId}: ${error}` });
+    });
+}
+
+/**
+ * Makes a user appear offline to another user (who they blocked), or visible again. Call once the block list is updated:
+ * what the viewer sees is read back as the viewer, so the update matches what later queries return.
+ * @param storage Where statuses, last seen times and block lists are kept.
+ * @param userId The user whose presence is hidden.
+ * @param viewerId The user it is hidden from.
+ * @param hidden True to hide, false to show again.
+ */
+export async function setPresenceHidden(storage: Storage, userId: string, viewerId: string, hidden: boolean): Promise<void> {
+    const [info] = await getPresence(storage, [userId], viewerId);
+    const payload: PresencePayload = { users: [info] };
+    await publishClusterEvent(hidden ? PRESENCE_HIDE_TOPIC : PRESENCE_SHOW_TOPIC, userId, { type: MessageType.Presence, payload, target: viewerId });
+}
+
+function setHidden(userId: string, viewerId: string, hidden: boolean): void {
+    let viewers = hiddenFrom.get(userId);
+    if (hidden) {
+        if (!viewers) {
+            viewers = new Set();
+            hiddenFrom.set(userId, viewers);
+        }
+        viewers.add(viewerId);
+    } else {
+        viewers?.delete(viewerId);
+        if (viewers?.size === 0) hiddenFrom.delete(userId);
+    }
+}
+
+// Only the viewer's devices subscribed to the user are told
+function applyVisibility(userId: string, message: SignalingMessage, hidden: boolean): void {
+    const devices = Array.from(watchers.get(userId) || []).filter(ws => ws.userId === message.target);
+    if (devices.length === 0) return;
+    setHidden(userId, message.target!, hidden);
+    const update: SignalingMessage = { type: MessageType.Presence, payload: message.payload };
+    devices.forEach(ws => sendWsMessage(ws, update));
+}
+
+// Several instances may publish the same change (e.g. both sides of a call); send it once
+function deliverPresence(userId: string, message: SignalingMessage): void {
+    const devices = watchers.get(userId);
+    if (!devices) return;
+    const [info] = (message.payload as PresencePayload).users;
+    const summary = `${info.status}:${info.lastSeen ?? ''}`;
+    if (lastSent.get(userId) === summary) return;
+    lastSent.set(userId, summary);
+    const hidden = hiddenFrom.get(userId);
+    devices.forEach((ws) => {
+        if (!hidden?.has(ws.userId!)) sendWsMessage(ws, message);
+    });
+}
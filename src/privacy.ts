@@ -0,0 +1,86 @@
+import * as dotenv from 'dotenv';
+import { ErrorCode, CallPolicy, PrivacyPayload } from './types';
+import { Storage } from './storage';
+import { setPresenceHidden } from './presence';
+import { moduleLogger } from './logger';
+
+dotenv.config();
+
+const logger = moduleLogger('privacy');
+
+// Size limits of the per-user lists
+export const MAX_BLOCKED_USERS = parseInt(process.env.PRIVACY_MAX_BLOCKED || '1000', 10);
+export const MAX_CONTACTS      = parseInt(process.env.PRIVACY_MAX_CONTACTS || '1000', 10);
+
+// Raised when a privacy change is refused; `code` is sent back to the client
+export class PrivacyError extends Error {
+    constructor(public readonly code: ErrorCode, message: string) {
+        super(message);
+        this.name = 'PrivacyError';
+    }
+}
+
+export async function getPrivacySettings(storage: Storage, userId: string): Promise<PrivacyPayload> {
+    const [callPolicy, blocked, contacts] = await Promise.all([
+        storage.privacy.getCallPolicy(userId),
+        storage.privacy.getList('blocks', userId),
+        storage.privacy.getList('contacts', userId)
+    ]);
+    return { callPolicy, blocked, contacts };
+}
+
+/**
+ * Blocks a user: they can no longer call or send message requests, whatever the call policy,
+ * what they queued is dropped and the blocking user appears offline to them.
+ * @param storage Where the lists are kept.
+ * @param userId The blocking user.
+ * @param blockedId The user to block.
+ * @throws PrivacyError if the block list is full.
+ */
+export async function blockUser(storage: Storage, userId: string, blockedId: string): Promise<void> {
+    if (blockedId === userId) throw new PrivacyError(ErrorCode.InvalidMessage, 'Cannot block yourself');
+    if (!(await storage.privacy.addListEntry('blocks', userId, blockedId, MAX_BLOCKED_USERS))) {
+        throw new PrivacyError(ErrorCode.ListFull, `At most ${MAX_BLOCKED_USERS} users can be blocked`);
+    }
+    await storage.offlineMessages.deleteFrom(userId, blockedId);
+    logger.log({ level: 'info', message: `${userId} blocked ${blockedId}` });
+    await setPresenceHidden(storage, userId, blockedId, true);
+}
+
+export async function unblockUser(storage: Storage, userId: string, blockedId: string): Promise<void> {
+    await storage.privacy.removeListEntry('blocks', userId, blockedId);
+    logger.log({ level: 'info', message: `${userId} unblocked ${blockedId}` });
+    await setPresenceHidden(storage, userId, blockedId, false);
+}
+
+/**
+ * Adds a user to the contact list, which the `contacts` call policy admits.
+ * @param storage Where the lists are kept.
+ * @param userId The user.
+ * @param contactId The contact.
+ * @throws PrivacyError if the contact list is full.
+ */
+export async function addContact(storage: Storage, userId: string, contactId: string): Promise<void> {
+    if (contactId === userId) throw new PrivacyError(ErrorCode.InvalidMessage, 'Cannot add yourself as a contact');
+    if (!(await storage.privacy.addListEntry('contacts', userId, contactId, MAX_CONTACTS))) {
+        throw new PrivacyError(ErrorCode.ListFull, `At most ${MAX_CONTACTS} contacts are allowed`);
+    }
+}
+
+export function removeContact(storage: Storage, userId: string, contactId: string): Promise<void> {
+    return storage.privacy.removeListEntry('contacts', userId, contactId);
+}
+
+export function setCallPolicy(storage: Storage, userId: string, policy: CallPolicy): Promise<void> {
+    return storage.privacy.saveCallPolicy(userId, policy);
+}
+
+/**
+ * Whether a user may start a call with, or send a message request to, another user.
+ * @param storage Where the lists and policies are kept.
+ * @param senderId The user making contact.
+ * @param targetId The user being contacted.
+ */
+export function mayContact(storage: Storage, senderId: string, targetId: string): Promise<boolean> {
+    return storage.privacy.isContactAllowed(senderId, targetId);
+}
@@ -0,0 +1,160 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { WebSocketClient, SignalingMessage, MessageType, ErrorCode, HelloPayload, WelcomePayload } from './types';
+import { isClustered } from './cluster';
+import { moduleLogger } from './logger';
+
+const logger = moduleLogger('protocol');
+
+// Protocol versions this server speaks, oldest first
+export const PROTOCOL_VERSIONS = [1, 2];
+// Spoken with clients that never send hello: the original message shapes, without message IDs or acks
+export const LEGACY_PROTOCOL_VERSION = 1;
+// From this version on every client message carries an `id`, answered with an ack or an error with that replyTo
+export const ACK_PROTOCOL_VERSION = 2;
+
+// Optional capabilities a client can ask for in hello
+export const SERVER_FEATURES = ['resume', 'presence', 'rooms', 'call_history', 'offline_messages', 'privacy', 'ice_servers'];
+// Kept per instance, so only offered by a server running alone (see isClustered)
+const SINGLE_INSTANCE_FEATURES = ['rooms'];
+
+// The client messages each feature adds; a client that negotiated without the feature may not send them
+const FEATURE_MESSAGES: Record<string, MessageType[]> = {
+    resume:           [MessageType.Resume],
+    presence:         [MessageType.SubscribePresence, MessageType.UnsubscribePresence, MessageType.GetPresence, MessageType.SetPresence],
+    rooms:            [MessageType.JoinRoom, MessageType.LeaveRoom],
+    call_history:     [MessageType.GetCallHistory],
+    offline_messages: [MessageType.MessageAck],
+    privacy:          [MessageType.BlockUser, MessageType.UnblockUser, MessageType.AddContact, MessageType.RemoveContact, MessageType.SetCallPolicy, MessageType.GetPrivacy],
+    ice_servers:      [MessageType.GetIceServers]
+};
+
+// Raised when a hello is refused; `code` is sent back to the client
+export class ProtocolError extends Error {
+    constructor(public readonly code: ErrorCode, message: string) {
+        super(message);
+        this.name = 'ProtocolError';
+    }
+}
+
+// The client message being handled
+interface RequestContext {
+    ws:      WebSocketClient;
+    id?:     string;
+    failed:  boolean; // An error was sent back for it
+    done:    boolean; // Handling finished; later sends (timers started meanwhile) are not replies
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+export function getProtocolVersion(ws: WebSocketClient): number {
+    return ws.protocolVersion ?? LEGACY_PROTOCOL_VERSION;
+}
+
+/**
+ * The features this server offers: all of SERVER_FEATURES, less the single-instance ones when clustered.
+ */
+export function offeredFeatures(): string[] {
+    return isClustered() ? SERVER_FEATURES.filter(feature => !SINGLE_INSTANCE_FEATURES.includes(feature)) : SERVER_FEATURES;
+}
+
+/**
+ * Agrees on the highest protocol version both sides speak, and on the features the client asked for
+ * that this server offers (all of them if it did not ask).
+ * @param ws The client's connection; the result is stored on it.
+ * @param hello The client's hello.
+ * @throws ProtocolError if hello comes too late, twice, or no version is shared.
+ */
+export function negotiateProtocol(ws: WebSocketClient, hello: HelloPayload): WelcomePayload {
+    if (ws.protocolVersion !== undefined) throw new ProtocolError(ErrorCode.InvalidMessage, 'Protocol already negotiated');
+    if (ws.userId) throw new ProtocolError(ErrorCode.InvalidMessage, 'hello must be sent before login');
+
+    const version = Math.max(...hello.versions.filter(v => PROTOCOL_VERSIONS.includes(v)));
+    if (version === -Infinity) {
+        throw new ProtocolError(ErrorCode.UnsupportedVersion, `None of the protocol versions ${hello.versions.join(', ')} is supported; this server speaks ${PROTOCOL_VERSIONS.join(', ')}`);
+    }
+    const offered = offeredFeatures();
+    const features = hello.features ? offered.filter(feature => hello.features!.includes(feature)) : offered;
+
+    ws.protocolVersion = version;
+    ws.features = features;
+    logger.log({ level: 'info', message: `Client ${ws.clientId} speaks protocol ${version} (features: ${features.join(', ') || 'none'})` });
+    return { version, features };
+}
+
+/**
+ * Whether a client may use a feature: it asked for it in hello, or never sent hello (legacy clients get all offered ones).
+ * @param ws The client's connection.
+ * @param feature One of SERVER_FEATURES.
+ */
+export function hasFeature(ws: WebSocketClient, feature: string): boolean {
+    return (ws.features ?? offeredFeatures()).includes(feature);
+}
+
+/**
+ * Checks that a client message belongs to no feature, or to one the client negotiated.
+ * @param ws The sender's connection.
+ * @param type The message type.
+ * @throws ProtocolError if the message belongs to a feature the client did not negotiate.
+ */
+export function checkFeature(ws: WebSocketClient, type: MessageType): void {
+    const feature = Object.keys(FEATURE_MESSAGES).find(name => FEATURE_MESSAGES[name].includes(type));
+    if (feature && !offeredFeatures().includes(feature)) {
+        throw new ProtocolError(ErrorCode.FeatureNotEnabled, `${type} belongs to the ${feature} feature, which is not available when running several instances`);
+    }
+    if (feature && !hasFeature(ws, feature)) {
+        throw new ProtocolError(ErrorCode.FeatureNotEnabled, `${type} belongs to the ${feature} feature, which was not negotiated in hello`);
+    }
+}
+
+/**
+ * Handles one client message. Errors sent back to the client meanwhile are replies to it.
+ * @param ws The client's connection.
+ * @param id The message's `id`, if it has one.
+ * @param handle Does the work.
+ * @returns True if an error was sent back.
+ */
+export async function runRequest(ws: WebSocketClient, id: string | undefined, handle: () => Promise<void>): Promise<boolean> {
+    const context: RequestContext = { ws, id, failed: false, done: false };
+    try {
+        await requestContext.run(context, handle);
+    } finally {
+        context.done = true;
+    }
+    return context.failed;
+}
+
+// The message being handled for a client, unless handling has finished
+function currentRequest(ws: WebSocketClient): RequestContext | undefined {
+    const context = requestContext.getStore();
+    return context && !context.done && context.ws === ws ? context : undefined;
+}
+
+function withReplyTo(ws: WebSocketClient, context: RequestContext, message: SignalingMessage): SignalingMessage {
+    if (context.id === undefined || message.replyTo !== undefined || getProtocolVersion(ws) < ACK_PROTOCOL_VERSION) return message;
+    return { ...message, replyTo: context.id };
+}
+
+/**
+ * Adds the replyTo of the message being handled to a direct response to it (login_success, presence, ...), under protocol 2.
+ * Messages the client receives meanwhile for other reasons (relayed or buffered ones) are not responses and are sent as they are.
+ * @param ws The recipient.
+ * @param message The response.
+ * @returns The message to send.
+ */
+export function correlateResponse(ws: WebSocketClient, message: SignalingMessage): SignalingMessage {
+    const context = currentRequest(ws);
+    return context ? withReplyTo(ws, context, message) : message;
+}
+
+/**
+ * Adds the replyTo of the message being handled to an error (or rate_limited) sent back for it, under protocol 2.
+ * @param ws The recipient.
+ * @param message The outgoing message.
+ * @returns The message to send.
+ */
+export function correlateReply(ws: WebSocketClient, message: SignalingMessage): SignalingMessage {
+    const context = currentRequest(ws);
+    if (!context || (message.type !== MessageType.Error && message.type !== MessageType.RateLimited)) return message;
+    context.failed = true;
+    return withReplyTo(ws, context, message);
+}
@@ -0,0 +1,131 @@
+import fs from 'fs';
+import http2 from 'http2';
+import jwt from 'jsonwebtoken';
+import { DEFAULT_PUSH_TIMEOUT_MS, IncomingCallNotification, PushDeliveryResult, PushDeliveryStatus, PushProvider, pushTimeoutFromEnv } from './types';
+
+const APNS_PRODUCTION_HOST = 'https://api.push.apple.com';
+const APNS_SANDBOX_HOST    = 'https://api.sandbox.push.apple.com';
+
+// APNs rejects provider tokens older than an hour and throttles ones refreshed too often
+const PROVIDER_TOKEN_LIFETIME_MS = 50 * 60 * 1000;
+
+// Reasons APNs gives for tokens that will never be deliverable again
+const UNREGISTERED_REASONS = ['BadDeviceToken', 'Unregistered', 'DeviceTokenNotForTopic'];
+
+export interface ApnsProviderOptions {
+    teamId:      string;
+    keyId:       string;
+    signingKey:  string;  // Contents of the .p8 auth key
+    bundleId:    string;
+    production?: boolean;
+    voip?:       boolean; // Send as a VoIP (PushKit) push, required for CallKit incoming calls
+    timeoutMs?:  number;  // How long to wait for APNs to answer a push
+}
+
+/**
+ * Builds APNs options from APNS_* environment variables, or null if APNs is not configured.
+ */
+export function apnsOptionsFromEnv(): ApnsProviderOptions | null {
+    const { APNS_TEAM_ID, APNS_KEY_ID, APNS_KEY_FILE, APNS_BUNDLE_ID } = process.env;
+    if (!APNS_TEAM_ID || !APNS_KEY_ID || !APNS_KEY_FILE || !APNS_BUNDLE_ID) return null;
+    return {
+        teamId:     APNS_TEAM_ID,
+        keyId:      APNS_KEY_ID,
+        signingKey: fs.readFileSync(APNS_KEY_FILE, 'utf8'),
+        bundleId:   APNS_BUNDLE_ID,
+        production: process.env.APNS_PRODUCTION === 'true',
+        voip:       process.env.APNS_VOIP !== 'false',
+        timeoutMs:  pushTimeoutFromEnv()
+    };
+}
+
+/**
+ * Push provider using the APNs HTTP/2 API with token-based (.p8) authentication.
+ * @param options Team, key and app settings.
+ */
+export function createApnsProvider(options: ApnsProviderOptions): PushProvider {
+    const host  = options.production ? APNS_PRODUCTION_HOST : APNS_SANDBOX_HOST;
+    const topic = options.voip ? `${options.bundleId}.voip` : options.bundleId;
+    const timeoutMs = options.timeoutMs ?? DEFAULT_PUSH_TIMEOUT_MS;
+
+    let session: http2.ClientHttp2Session | null = null;
+    let providerToken: string | null = null;
+    let providerTokenIssuedAt = 0;
+
+    function getProviderToken(): string {
+        if (!providerToken || Date.now() - providerTokenIssuedAt > PROVIDER_TOKEN_LIFETIME_MS) {
+            providerToken = jwt.sign({}, options.signingKey, { algorithm: 'ES256', issuer: options.teamId, keyid: options.keyId });
+            providerTokenIssuedAt = Date.now();
+        }
+        return providerToken;
+    }
+
+    // One long-lived HTTP/2 connection is reused for all pushes, reconnecting when it drops
+    function getSession(): http2.ClientHttp2Session {
+        if (!session || session.closed || session.destroyed) {
+            session = http2.connect(host);
+            session.on('error', () => { session = null; });
+            session.on('goaway', () => { session = null; });
+            session.unref(); // Do not keep the process alive just for this connection
+        }
+        return session;
+    }
+
+    return {
+        name: 'apns',
+        send(pushToken: string, notification: IncomingCallNotification): Promise<PushDeliveryResult> {
+            const body = JSON.stringify({
+                aps: options.voip ? {} : { 'content-available': 1 },
+                type:        'incoming_call',
+                callerId:    notification.callerId,
+                callId:      notification.callId,
+                messageType: notification.messageType
+            });
+
+            return new Promise((resolve) => {
+                let request: http2.ClientHttp2Stream;
+                try {
+                    request = getSession().request({
+                        ':method':         'POST',
+                        ':path':           `/3/device/${pushToken}`,
+                        'authorization':   `bearer ${getProviderToken()}`,
+                        'apns-topic':      topic,
+                        'apns-push-type':  options.voip ? 'voip' : 'background',
+                        'apns-priority':   options.voip ? '10' : '5',
+                        'apns-expiration': '0', // Calls are pointless to deliver late
+                        'content-type':    'application/json'
+                    });
+                } catch (error) {
+                    resolve({ status: PushDeliveryStatus.Failed, error: `${error}` });
+                    return;
+                }
+
+                let status = 0;
+                let responseBody = '';
+                request.setEncoding('utf8');
+                request.on('response', (headers) => { status = Number(headers[':status']); });
+                request.on('data', (chunk: string) => { responseBody += chunk; });
+                request.on('error', (error) => resolve({ status: PushDeliveryStatus.Failed, error: `${error}` }));
+                // A stalled stream would otherwise hold the delivery forever; cancelling it leaves the session usable
+                request.setTimeout(timeoutMs, () => {
+                    request.close(http2.constants.NGHTTP2_CANCEL);
+                    resolve({ status: PushDeliveryStatus.Failed, error: `APNs did not answer within ${timeoutMs}ms` });
+                });
+                request.on('end', () => {
+                    if (status === 200) {
+                        resolve({ status: PushDeliveryStatus.Delivered });
+                        return;
+                    }
+                    let reason = '';
+                    try { reason = JSON.parse(responseBody).reason || ''; } catch { /* empty or non-JSON body */ }
+                    if (status === 410 || UNREGISTERED_REASONS.includes(reason)) {
+                        resolve({ status: PushDeliveryStatus.Unregistered, error: reason || `APNs responded with ${status}` });
+                    } else {
+                        resolve({ status: PushDeliveryStatus.Failed, error: `APNs responded with ${status}: ${reason}` });
+                    }
+                });
+                request.end(body);
+            });
+        }
+    };
+}
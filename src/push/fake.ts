@@ -0,0 +1,33 @@
+import { IncomingCallNotification, PushDeliveryResult, PushDeliveryStatus, PushProvider } from './types';
+
+export interface FakePushProvider extends PushProvider {
+    // Every notification handed to the provider, in order
+    readonly sent: Array<{ pushToken: string; notification: IncomingCallNotification }>;
+    // Overrides the result returned for a given token (defaults to delivered)
+    setResult(pushToken: string, result: PushDeliveryResult): void;
+    reset(): void;
+}
+
+/**
+ * In-process push provider for tests and local development. Nothing leaves the process.
+ */
+export function createFakePushProvider(): FakePushProvider {
+    const results = new Map<string, PushDeliveryResult>();
+    const sent: FakePushProvider['sent'] = [];
+
+    return {
+        name: 'fake',
+        sent,
+        async send(pushToken: string, notification: IncomingCallNotification): Promise<PushDeliveryResult> {
+            sent.push({ pushToken, notification });
+            return results.get(pushToken) || { status: PushDeliveryStatus.Delivered };
+        },
+        setResult(pushToken: string, result: PushDeliveryResult): void {
+            results.set(pushToken, result);
+        },
+        reset(): void {
+            results.clear();
+            sent.length = 0;
+        }
+    };
+}
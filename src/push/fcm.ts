@@ -0,0 +1,123 @@
+import fs from 'fs';
+import jwt from 'jsonwebtoken';
+import { DEFAULT_PUSH_TIMEOUT_MS, IncomingCallNotification, PushDeliveryResult, PushDeliveryStatus, PushProvider, pushTimeoutFromEnv } from './types';
+
+const FCM_SCOPE         = 'https://www.googleapis.com/auth/firebase.messaging';
+const DEFAULT_TOKEN_URI = 'https://oauth2.googleapis.com/token';
+
+// Subset of a Google service account key file that we need
+export interface ServiceAccount {
+    project_id:   string;
+    client_email: string;
+    private_key:  string;
+    token_uri?:   string;
+}
+
+export interface FcmProviderOptions {
+    serviceAccount: ServiceAccount;
+    ttlSeconds?:    number; // How long FCM should keep trying to deliver an incoming call
+    timeoutMs?:     number; // How long to wait for each request to Google's servers
+}
+
+/**
+ * Loads a service account key file as downloaded from the Firebase console.
+ * @param path Path to the JSON key file.
+ */
+export function loadServiceAccount(path: string): ServiceAccount {
+    return JSON.parse(fs.readFileSync(path, 'utf8')) as ServiceAccount;
+}
+
+/**
+ * Builds FCM options from FCM_* environment variables, or null if FCM is not configured.
+ */
+export function fcmOptionsFromEnv(): FcmProviderOptions | null {
+    const serviceAccountFile = process.env.FCM_SERVICE_ACCOUNT_FILE;
+    if (!serviceAccountFile) return null;
+    return {
+        serviceAccount: loadServiceAccount(serviceAccountFile),
+        ttlSeconds:     parseInt(process.env.FCM_TTL_SEC || '30', 10),
+        timeoutMs:      pushTimeoutFromEnv()
+    };
+}
+
+/**
+ * Push provider using the FCM HTTP v1 API, authenticated with a service account.
+ * @param options Service account and delivery settings.
+ */
+export function createFcmProvider(options: FcmProviderOptions): PushProvider {
+    const { serviceAccount } = options;
+    const tokenUri = serviceAccount.token_uri || DEFAULT_TOKEN_URI;
+    const sendUrl  = `https://fcm.googleapis.com/v1/projects/${serviceAccount.project_id}/messages:send`;
+    const ttl      = `${options.ttlSeconds ?? 30}s`;
+    const timeoutMs = options.timeoutMs ?? DEFAULT_PUSH_TIMEOUT_MS;
+
+    let accessToken: string | null = null;
+    let accessTokenExpiresAt = 0;
+
+    // OAuth2 access tokens last an hour; refresh a minute before they run out
+    async function getAccessToken(): Promise<string> {
+        if (accessToken && Date.now() < accessTokenExpiresAt - 60000) return accessToken;
+
+        const assertion = jwt.sign({ scope: FCM_SCOPE }, serviceAccount.private_key, {
+            algorithm: 'RS256',
+            issuer:    serviceAccount.client_email,
+            audience:  tokenUri,
+            expiresIn: 3600
+        });
+        const response = await fetch(tokenUri, {
+            method:  'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            body:    new URLSearchParams({ grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer', assertion }).toString(),
+            signal:  AbortSignal.timeout(timeoutMs)
+        });
+        if (!response.ok) {
+            throw new Error(`OAuth token request failed with status ${response.status}: ${await response.text()}`);
+        }
+        const body = await response.json() as { access_token: string; expires_in: number };
+        accessToken = body.access_token;
+        accessTokenExpiresAt = Date.now() + body.expires_in * 1000;
+        return accessToken;
+    }
+
+    return {
+        name: 'fcm',
+        async send(pushToken: string, notification: IncomingCallNotification): Promise<PushDeliveryResult> {
+            try {
+                const response = await fetch(sendUrl, {
+                    method:  'POST',
+                    headers: {
+                        'Authorization': `Bearer ${await getAccessToken()}`,
+                        'Content-Type':  'application/json'
+                    },
+                    body: JSON.stringify({
+                        message: {
+                            token: pushToken,
+                            // Data-only high priority message so the app is woken up to show its own call UI
+                            data: {
+                                type:        'incoming_call',
+                                callerId:    notification.callerId,
+                                callId:      notification.callId,
+                                messageType: notification.messageType
+                            },
+                            android: { priority: 'high', ttl }
+                        }
+                    }),
+                    signal: AbortSignal.timeout(timeoutMs)
+                });
+                if (response.ok) return { status: PushDeliveryStatus.Delivered };
+
+                const body = await response.text();
+                // FCM reports stale tokens as 404 NOT_FOUND with an UNREGISTERED error code
+                if (response.status === 404 || body.includes('UNREGISTERED')) {
+                    return { status: PushDeliveryStatus.Unregistered, error: body };
+                }
+                return { status: PushDeliveryStatus.Failed, error: `FCM responded with ${response.status}: ${body}` };
+            } catch (error) {
+                if (error instanceof Error && error.name === 'TimeoutError') {
+                    return { status: PushDeliveryStatus.Failed, error: `FCM did not answer within ${timeoutMs}ms` };
+                }
+                return { status: PushDeliveryStatus.Failed, error: `${error}` };
+            }
+        }
+    };
+}
@@ -0,0 +1,77 @@
+import { Storage } from '../storage';
+import { moduleLogger } from '../logger';
+import { createApnsProvider, apnsOptionsFromEnv } from './apns';
+import { createFcmProvider, fcmOptionsFromEnv } from './fcm';
+import { createFakePushProvider } from './fake';
+import { IncomingCallNotification, PushDeliveryResult, PushDeliveryStatus, PushPlatform, PushProvider } from './types';
+
+export * from './types';
+export { createFakePushProvider, FakePushProvider } from './fake';
+
+const logger = moduleLogger('push');
+
+// Active provider per platform
+const providers = new Map<PushPlatform, PushProvider>();
+
+/**
+ * Installs (or replaces) the provider used for a platform, e.g. the fake provider in tests.
+ * @param platform The platform whose tokens the provider handles.
+ * @param provider The provider to use.
+ */
+export function registerPushProvider(platform: PushPlatform, provider: PushProvider): void {
+    providers.set(platform, provider);
+    logger.log({ level: 'info', message: `Push: using provider "${provider.name}" for ${platform} tokens` });
+}
+
+/**
+ * Configures providers from the environment. PUSH_PROVIDER=fake routes every platform
+ * to the in-process fake provider; otherwise FCM and APNs are enabled when configured.
+ */
+export function configurePushProvidersFromEnv(): void {
+    if (process.env.PUSH_PROVIDER === 'fake') {
+        const fake = createFakePushProvider();
+        registerPushProvider(PushPlatform.Fcm, fake);
+        registerPushProvider(PushPlatform.Apns, fake);
+        return;
+    }
+    const fcmOptions = fcmOptionsFromEnv();
+    if (fcmOptions) registerPushProvider(PushPlatform.Fcm, createFcmProvider(fcmOptions));
+    const apnsOptions = apnsOptionsFromEnv();
+    if (apnsOptions) registerPushProvider(PushPlatform.Apns, createApnsProvider(apnsOptions));
+}
+
+/**
+ * Sends an incoming-call push to a device and removes the token if the provider reports it as unregistered.
+ * @param storage Where the token is kept.
+ * @param userId The user the token belongs to.
+ * @param pushToken The device token.
+ * @param platform The platform the token was registered for.
+ * @param notification The incoming-call data to deliver.
+ */
+export async function sendIncomingCallPush(
+    storage: Storage,
+    userId: string,
+    pushToken: string,
+    platform: PushPlatform,
+    notification: IncomingCallNotification
+): Promise<PushDeliveryResult> {
+    const provider = providers.get(platform);
+    if (!provider) {
+        logger.log({ level: 'warn', message: `Push: no provider configured for ${platform}, cannot notify ${userId}` });
+        return { status: PushDeliveryStatus.Failed, error: `No push provider configured for ${platform}` };
+    }
+
+    const result = await provider.send(pushToken, notification);
+    logger.log({ level: 'info', message: `Push: ${provider.name} delivery to ${userId} for call ${notification.callId}: ${result.status}`, callId: notification.callId });
+
+    if (result.status === PushDeliveryStatus.Unregistered) {
+        try {
+            await storage.pushTokens.delete(userId, pushToken);
+        } catch (dbError) {
+            logger.log({ level: 'error', message: `Push: failed to remove unregistered token for ${userId}: ${dbError}` });
+        }
+    } else if (result.status === PushDeliveryStatus.Failed) {
+        logger.log({ level: 'warn', message: `Push: delivery to ${userId} failed: ${result.error}` });
+    }
+    return result;
+}
@@ -0,0 +1,32 @@
+import { MessageType, PushDeliveryStatus, PushPlatform } from '../types';
+
+// Data delivered to the offline callee so its app can wake up and connect
+export interface IncomingCallNotification {
+    callerId:    string;
+    callId:      string;
+    messageType: MessageType; // The relayed message that triggered the push (offer, message_request)
+}
+
+// How long a provider waits for its push service to answer before the delivery counts as failed
+export const DEFAULT_PUSH_TIMEOUT_MS = 10000;
+
+/**
+ * Reads the push request timeout from PUSH_TIMEOUT_MS, falling back to the default.
+ */
+export function pushTimeoutFromEnv(): number {
+    return parseInt(process.env.PUSH_TIMEOUT_MS || `${DEFAULT_PUSH_TIMEOUT_MS}`, 10);
+}
+
+export interface PushDeliveryResult {
+    status: PushDeliveryStatus;
+    error?: string;
+}
+
+// A push delivery backend (FCM, APNs, the fake test provider, ...)
+export interface PushProvider {
+    readonly name: string;
+    send(pushToken: string, notification: IncomingCallNotification): Promise<PushDeliveryResult>;
+}
+
+// Re-exported so provider modules only need this file
+export { PushDeliveryStatus, PushPlatform };
@@ -0,0 +1,264 @@
+import * as dotenv from 'dotenv';
+import { IncomingMessage } from 'http';
+import { WebSocketClient, MessageType, RateLimitedPayload } from './types';
+import { sendWsMessage } from './wsUtils';
+import { closeWithoutResume } from './resume';
+import { rateLimitedTotal } from './metrics';
+import { moduleLogger } from './logger';
+
+dotenv.config();
+
+const logger = moduleLogger('ratelimit');
+
+export const WS_CLOSE_BANNED = 1008; // Policy violation
+
+// A token bucket: `ratePerSec` tokens are added per second, up to `burst`
+export interface BucketLimit {
+    ratePerSec: number;
+    burst:      number;
+}
+
+export interface RateLimitConfig {
+    socket:                   BucketLimit; // Messages per connection
+    user:                     BucketLimit; // Messages per user, across all of their devices
+    address:                  BucketLimit; // Messages per remote address, across all of its connections
+    offlineLookup:            BucketLimit; // Push token lookups / mailbox writes per user (offers and messages to offline users)
+    loginFailure:             BucketLimit; // Failed logins per remote address before it is banned
+    violation:                BucketLimit; // Rate limit violations per remote address before it is banned
+    maxConnectionsPerAddress: number;
+    banSec:                   number;
+    maxMessageBytes:          number;      // Largest accepted WebSocket frame
+    trustedProxies:           Set<string>; // Only these peers may set x-forwarded-for
+}
+
+export type RateLimitDecision =
+    | { allowed: true }
+    | { allowed: false; retryAfterMs: number; banned: boolean };
+
+function envNumber(name: string, fallback: number): number {
+    const value = parseFloat(process.env[name] || '');
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function limitFromEnv(prefix: string, ratePerSec: number, burst: number): BucketLimit {
+    return {
+        ratePerSec: envNumber(`${prefix}_PER_SEC`, ratePerSec),
+        burst:      envNumber(`${prefix}_BURST`, burst)
+    };
+}
+
+export const RATE_LIMITS: RateLimitConfig = {
+    socket:                   limitFromEnv('RATE_LIMIT_SOCKET', 20, 100), // Candidates arrive in bursts during negotiation
+    user:                     limitFromEnv('RATE_LIMIT_USER', 40, 200),
+    address:                  limitFromEnv('RATE_LIMIT_ADDRESS', 100, 500),
+    offlineLookup:            limitFromEnv('RATE_LIMIT_OFFLINE', 0.5, 10),
+    loginFailure:             limitFromEnv('RATE_LIMIT_LOGIN_FAILURE', 0.1, 10),
+    violation:                limitFromEnv('RATE_LIMIT_VIOLATION', 0.1, 20),
+    maxConnectionsPerAddress: envNumber('MAX_CONNECTIONS_PER_ADDRESS', 50),
+    banSec:                   envNumber('RATE_LIMIT_BAN_SEC', 600),
+    maxMessageBytes:          envNumber('MAX_MESSAGE_BYTES', 128 * 1024),
+    trustedProxies:           new Set((process.env.TRUSTED_PROXIES || '').split(',').map(entry => entry.trim()).filter(Boolean))
+};
+
+interface Bucket {
+    tokens:    number;
+    updatedAt: number;
+}
+
+// Per-socket buckets go away with the socket; the others are pruned once full again
+const socketBuckets        = new WeakMap<WebSocketClient, Bucket>();
+const userBuckets          = new Map<string, Bucket>();
+const addressBuckets       = new Map<string, Bucket>();
+const offlineLookupBuckets = new Map<string, Bucket>();
+const loginFailureBuckets  = new Map<string, Bucket>();
+const violationBuckets     = new Map<string, Bucket>();
+const connectionCounts     = new Map<string, number>();
+const bans                 = new Map<string, number>(); // address -> epoch ms the ban ends
+
+function refill(bucket: Bucket, limit: BucketLimit, now: number): void {
+    bucket.tokens = Math.min(limit.burst, bucket.tokens + (now - bucket.updatedAt) / 1000 * limit.ratePerSec);
+    bucket.updatedAt = now;
+}
+
+/**
+ * Takes one token from a bucket.
+ * @returns 0 if a token was available, otherwise the milliseconds until one will be.
+ */
+function take(bucket: Bucket, limit: BucketLimit, now: number): number {
+    refill(bucket, limit, now);
+    if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return 0;
+    }
+    return limit.ratePerSec > 0 ? Math.ceil((1 - bucket.tokens) / limit.ratePerSec * 1000) : RATE_LIMITS.banSec * 1000;
+}
+
+function bucketFor(buckets: Map<string, Bucket>, key: string, limit: BucketLimit, now: number): Bucket {
+    let bucket = buckets.get(key);
+    if (!bucket) {
+        bucket = { tokens: limit.burst, updatedAt: now };
+        buckets.set(key, bucket);
+    }
+    return bucket;
+}
+
+function banRemainingMs(address: string, now: number): number {
+    const until = bans.get(address);
+    if (until === undefined) return 0;
+    if (until <= now) {
+        bans.delete(address);
+        return 0;
+    }
+    return until - now;
+}
+
+function ban(address: string, reason: string, now: number): RateLimitDecision {
+    const retryAfterMs = RATE_LIMITS.banSec * 1000;
+    bans.set(address, now + retryAfterMs);
+    logger.log({ level: 'warn', message: `Banned ${address} for ${RATE_LIMITS.banSec}s: ${reason}` });
+    return { allowed: false, retryAfterMs, banned: true };
+}
+
+// Counts a violation against the address, banning it once it has run out of allowance
+function denied(address: string, retryAfterMs: number, now: number): RateLimitDecision {
+    if (take(bucketFor(violationBuckets, address, RATE_LIMITS.violation, now), RATE_LIMITS.violation, now) > 0) {
+        return ban(address, 'repeated rate limit violations', now);
+    }
+    return { allowed: false, retryAfterMs, banned: false };
+}
+
+/**
+ * Resolves the client address of an upgrade request.
+ * x-forwarded-for is only honoured when the direct peer is a trusted proxy; the rightmost
+ * entry not added by a trusted proxy is the client.
+ * @param req The HTTP upgrade request.
+ */
+export function getClientAddress(req: IncomingMessage): string {
+    const peer = req.socket.remoteAddress || 'unknown';
+    if (!RATE_LIMITS.trustedProxies.has(peer)) return peer;
+
+    const header = req.headers['x-forwarded-for'];
+    const hops = (Array.isArray(header) ? header.join(',') : header || '').split(',').map(hop => hop.trim()).filter(Boolean);
+    for (let i = hops.length - 1; i >= 0; i--) {
+        if (!RATE_LIMITS.trustedProxies.has(hops[i])) return hops[i];
+    }
+    return hops[0] || peer;
+}
+
+/**
+ * Decides whether a new connection from an address is accepted (not banned, under the connection cap).
+ * @param address The client address, see getClientAddress.
+ */
+export function checkConnection(address: string): RateLimitDecision {
+    const now = Date.now();
+    const banned = banRemainingMs(address, now);
+    if (banned > 0) return { allowed: false, retryAfterMs: banned, banned: true };
+    if ((connectionCounts.get(address) || 0) >= RATE_LIMITS.maxConnectionsPerAddress) {
+        return denied(address, 1000, now);
+    }
+    return { allowed: true };
+}
+
+// Keeps the per-address connection count used by checkConnection
+export function trackConnection(address: string): void {
+    connectionCounts.set(address, (connectionCounts.get(address) || 0) + 1);
+}
+
+export function releaseConnection(address: string): void {
+    const count = (connectionCounts.get(address) || 0) - 1;
+    if (count > 0) connectionCounts.set(address, count);
+    else connectionCounts.delete(address);
+}
+
+/**
+ * Takes a token for one inbound message from the socket's, its user's and its address' buckets.
+ * @param ws The sending connection; `remoteAddress` must be set.
+ */
+export function checkMessage(ws: WebSocketClient): RateLimitDecision {
+    const now = Date.now();
+    const address = ws.remoteAddress!;
+    const banned = banRemainingMs(address, now);
+    if (banned > 0) return { allowed: false, retryAfterMs: banned, banned: true };
+
+    let socketBucket = socketBuckets.get(ws);
+    if (!socketBucket) {
+        socketBucket = { tokens: RATE_LIMITS.socket.burst, updatedAt: now };
+        socketBuckets.set(ws, socketBucket);
+    }
+
+    const waits = [
+        take(socketBucket, RATE_LIMITS.socket, now),
+        take(bucketFor(addressBuckets, address, RATE_LIMITS.address, now), RATE_LIMITS.address, now)
+    ];
+    if (ws.userId) waits.push(take(bucketFor(userBuckets, ws.userId, RATE_LIMITS.user, now), RATE_LIMITS.user, now));
+
+    const retryAfterMs = Math.max(...waits);
+    return retryAfterMs > 0 ? denied(address, retryAfterMs, now) : { allowed: true };
+}
+
+/**
+ * Takes a token for work done on behalf of a user whose target is offline
+ * (push token lookups, push sends and mailbox writes).
+ * @param ws The sending connection.
+ */
+export function checkOfflineLookup(ws: WebSocketClient): RateLimitDecision {
+    const now = Date.now();
+    const bucket = bucketFor(offlineLookupBuckets, ws.userId!, RATE_LIMITS.offlineLookup, now);
+    const retryAfterMs = take(bucket, RATE_LIMITS.offlineLookup, now);
+    return retryAfterMs > 0 ? denied(ws.remoteAddress!, retryAfterMs, now) : { allowed: true };
+}
+
+/**
+ * Records a failed login (bad or expired token) from an address; too many ban it.
+ * @param address The client address.
+ * @returns A negative decision once the address is banned.
+ */
+export function recordLoginFailure(address: string): RateLimitDecision {
+    const now = Date.now();
+    const bucket = bucketFor(loginFailureBuckets, address, RATE_LIMITS.loginFailure, now);
+    if (take(bucket, RATE_LIMITS.loginFailure, now) === 0) return { allowed: true };
+    return ban(address, 'too many failed logins', now);
+}
+
+/**
+ * Tells a client its message was not processed and, if its address is banned, disconnects it.
+ * @param ws The client.
+ * @param decision The negative decision.
+ * @param originalType The rejected message type, if known.
+ */
+export function rejectRateLimited(ws: WebSocketClient, decision: RateLimitDecision, originalType?: MessageType): void {
+    if (decision.allowed) return;
+    rateLimitedTotal.inc();
+    const payload: RateLimitedPayload = { retryAfterMs: decision.retryAfterMs, banned: decision.banned };
+    sendWsMessage(ws, { type: MessageType.RateLimited, payload, originalType });
+    if (decision.banned) closeWithoutResume(ws, WS_CLOSE_BANNED, 'Rate limit exceeded');
+}
+
+/**
+ * Drops buckets that have refilled completely and expired bans, so idle clients cost no memory.
+ */
+export function pruneRateLimiters(): void {
+    const now = Date.now();
+    const prune = (buckets: Map<string, Bucket>, limit: BucketLimit) => {
+        buckets.forEach((bucket, key) => {
+            refill(bucket, limit, now);
+            if (bucket.tokens >= limit.burst) buckets.delete(key);
+        });
+    };
+    prune(userBuckets, RATE_LIMITS.user);
+    prune(addressBuckets, RATE_LIMITS.address);
+    prune(offlineLookupBuckets, RATE_LIMITS.offlineLookup);
+    prune(loginFailureBuckets, RATE_LIMITS.loginFailure);
+    prune(violationBuckets, RATE_LIMITS.violation);
+    bans.forEach((until, address) => {
+        if (until <= now) bans.delete(address);
+    });
+}
+
+/**
+ * Forgets every bucket and ban, e.g. when the server stops, so that a server started again in this process starts afresh.
+ */
+export function resetRateLimiters(): void {
+    [userBuckets, addressBuckets, offlineLookupBuckets, loginFailureBuckets, violationBuckets].forEach(buckets => buckets.clear());
+    bans.clear();
+}
@@ -0,0 +1,158 @@
+import crypto from 'crypto';
+import * as dotenv from 'dotenv';
+import { WebSocketClient, SignalingMessage } from './types';
+import { moduleLogger } from './logger';
+
+dotenv.config();
+
+const logger = moduleLogger('resume');
+
+// How long a dropped device session is held for a resume
+export const RESUME_GRACE_SEC  = parseInt(process.env.RESUME_GRACE_SEC || '30', 10);
+// Messages buffered per held session; the oldest are dropped beyond this
+export const RESUME_BUFFER_MAX = parseInt(process.env.RESUME_BUFFER_MAX || '200', 10);
+
+// A device session that can be resumed with the token issued to it. Only a digest of the token is kept.
+interface ResumableSession {
+    tokenDigest: string;
+    ws:          WebSocketClient; // The socket the session is attached to (closed while held)
+    timer?:      NodeJS.Timeout;  // Set while the session is held
+    expire?:     () => void;      // Removes the held session
+}
+
+const byDigest = new Map<string, ResumableSession>();
+const bySocket = new Map<WebSocketClient, ResumableSession>();
+
+function digest(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function forget(session: ResumableSession): void {
+    if (session.timer) clearTimeout(session.timer);
+    byDigest.delete(session.tokenDigest);
+    if (bySocket.get(session.ws) === session) bySocket.delete(session.ws);
+}
+
+/**
+ * Issues a resume token for a logged-in device session, replacing any earlier one.
+ * @param ws The device's connection.
+ * @returns The token, to be sent to the client only.
+ */
+export function issueResumeToken(ws: WebSocketClient): string {
+    const previous = bySocket.get(ws);
+    if (previous) forget(previous);
+    const token = crypto.randomBytes(32).toString('base64url');
+    const session: ResumableSession = { tokenDigest: digest(token), ws };
+    byDigest.set(session.tokenDigest, session);
+    bySocket.set(ws, session);
+    return token;
+}
+
+/**
+ * Makes a session unresumable, e.g. once it has been removed or before the server closes it on purpose.
+ * A session that is being held is removed right away.
+ * @param ws The device's connection.
+ */
+export function discardResumeToken(ws: WebSocketClient): void {
+    const session = bySocket.get(ws);
+    if (!session) return;
+    forget(session);
+    session.expire?.();
+}
+
+/**
+ * Makes every session unresumable, e.g. when the server stops. Held sessions are removed right away.
+ */
+export function discardAllResumeTokens(): void {
+    Array.from(bySocket.keys()).forEach(discardResumeToken);
+}
+
+/**
+ * Closes a connection that must not be resumed (expired token, ban, administrator).
+ * @param ws The connection.
+ * @param code The WebSocket close code.
+ * @param reason The close reason.
+ */
+export function closeWithoutResume(ws: WebSocketClient, code: number, reason: string): void {
+    discardResumeToken(ws);
+    ws.close(code, reason);
+}
+
+/**
+ * Holds the session of a dropped connection for RESUME_GRACE_SEC. Messages sent to it meanwhile are buffered.
+ * @param ws The closed connection.
+ * @param onExpire Called if the session is not resumed in time; should remove the session.
+ * @returns False if the session cannot be resumed and should be removed now.
+ */
+export function holdSession(ws: WebSocketClient, onExpire: () => void): boolean {
+    const session = bySocket.get(ws);
+    if (!session || RESUME_GRACE_SEC <= 0) return false;
+    ws.resumeBuffer = [];
+    session.expire = () => {
+        logger.log({ level: 'info', message: `Resume: session of ${ws.userId} (device ${ws.deviceId}) ended with ${ws.resumeBuffer?.length} buffered message(s)` });
+        delete ws.resumeBuffer;
+        onExpire();
+    };
+    session.timer = setTimeout(() => {
+        forget(session);
+        session.expire!();
+    }, RESUME_GRACE_SEC * 1000);
+    return true;
+}
+
+/**
+ * Takes over the session a resume token was issued for. The token is used up.
+ * If the old connection is still open (the drop has not been noticed yet) it is terminated.
+ * @param token The resume token.
+ * @returns The old connection, with any messages buffered for it in resumeBuffer; null if the token is unknown or expired.
+ */
+export function takeOverSession(token: string): WebSocketClient | null {
+    const session = byDigest.get(digest(token));
+    if (!session) return null;
+    forget(session);
+
+    const old = session.ws;
+    if (!old.resumeBuffer) {
+        // Stale socket: stop sending to it before it goes
+        old.resumeBuffer = [];
+        old.terminate();
+    }
+    return old;
+}
+
+/**
+ * Whether a connection's session is being held for a resume: its socket is closed, and messages to it are buffered.
+ * @param ws The connection.
+ */
+export function isSessionHeld(ws: WebSocketClient): boolean {
+    return bySocket.get(ws)?.timer !== undefined;
+}
+
+/**
+ * Ends the hold of a session that its device has logged in to again, so that the new connection can take it over.
+ * The resume token is used up; messages buffered for the session stay in resumeBuffer.
+ * @param ws The held connection.
+ * @returns False if the session is not held.
+ */
+export function releaseHeldSession(ws: WebSocketClient): boolean {
+    const session = bySocket.get(ws);
+    if (session?.timer === undefined) return false;
+    forget(session);
+    return true;
+}
+
+/**
+ * Buffers a message for a held session instead of sending it.
+ * @param ws The recipient connection.
+ * @param message The message.
+ * @returns False if the connection is not held and the message should be sent.
+ */
+export function bufferForResume(ws: WebSocketClient, message: SignalingMessage): boolean {
+    if (!ws.resumeBuffer) return false;
+    ws.resumeBuffer.push(message);
+    if (ws.resumeBuffer.length > RESUME_BUFFER_MAX) {
+        const dropped = ws.resumeBuffer.shift()!;
+        logger.log({ level: 'warn', message: `Resume: buffer of ${ws.userId} (device ${ws.deviceId}) is full; dropped ${dropped.type}` });
+    }
+    return true;
+}
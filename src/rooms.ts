@@ -0,0 +1,109 @@
+import crypto from 'crypto';
+import * as dotenv from 'dotenv';
+import { WebSocketClient, ErrorCode, RoomPeer } from './types';
+
+dotenv.config();
+
+// Maximum number of device sessions in one room (mesh calls get expensive quickly)
+export const MAX_ROOM_SIZE = parseInt(process.env.ROOM_MAX_SIZE || '8', 10);
+
+export interface Room {
+    id:            string;
+    passwordHash?: Buffer;  // Set by the first member if they joined with a password
+    members:       Set<WebSocketClient>;
+}
+
+// Raised when a device may not join a room; `code` is sent back to the client
+export class RoomError extends Error {
+    constructor(public readonly code: ErrorCode, message: string) {
+        super(message);
+        this.name = 'RoomError';
+    }
+}
+
+// Rooms exist while they have members
+const rooms = new Map<string, Room>();
+
+function hashPassword(password: string): Buffer {
+    return crypto.createHash('sha256').update(password).digest();
+}
+
+/**
+ * Adds a device to a room, creating the room if it does not exist yet.
+ * The device that creates a room decides its password (if any).
+ * @param ws The joining device.
+ * @param roomId The room to join.
+ * @param password The room password, if the room has (or should have) one.
+ * @returns The room, including the new member.
+ */
+export function joinRoom(ws: WebSocketClient, roomId: string, password?: string): Room {
+    let room = rooms.get(roomId);
+    if (!room) {
+        room = { id: roomId, passwordHash: password ? hashPassword(password) : undefined, members: new Set() };
+        rooms.set(roomId, room);
+    } else if (room.members.has(ws)) {
+        return room;
+    } else {
+        if (room.passwordHash && !(password && crypto.timingSafeEqual(room.passwordHash, hashPassword(password)))) {
+            throw new RoomError(ErrorCode.RoomPasswordInvalid, `Wrong password for room ${roomId}`);
+        }
+        if (room.members.size >= MAX_ROOM_SIZE) {
+            throw new RoomError(ErrorCode.RoomFull, `Room ${roomId} is full (max ${MAX_ROOM_SIZE} members)`);
+        }
+    }
+    room.members.add(ws);
+    return room;
+}
+
+/**
+ * Removes a device from a room; empty rooms are deleted.
+ * @param ws The leaving device.
+ * @param roomId The room to leave.
+ * @returns The room the device left, or undefined if it was not a member.
+ */
+export function leaveRoom(ws: WebSocketClient, roomId: string): Room | undefined {
+    const room = rooms.get(roomId);
+    if (!room || !room.members.delete(ws)) return undefined;
+    if (room.members.size === 0) rooms.delete(roomId);
+    return room;
+}
+
+/**
+ * Removes a device from every room it is in, e.g. when it disconnects.
+ * @param ws The leaving device.
+ * @returns The rooms the device left.
+ */
+export function leaveAllRooms(ws: WebSocketClient): Room[] {
+    const left: Room[] = [];
+    rooms.forEach((room) => {
+        if (room.members.has(ws)) left.push(leaveRoom(ws, room.id)!);
+    });
+    return left;
+}
+
+/**
+ * Puts a new connection in place of an old one in every room, e.g. when a device resumes its session.
+ * @param oldWs The replaced connection.
+ * @param newWs The connection taking its place.
+ */
+export function replaceRoomMember(oldWs: WebSocketClient, newWs: WebSocketClient): void {
+    rooms.forEach((room) => {
+        if (room.members.delete(oldWs)) room.members.add(newWs);
+    });
+}
+
+/**
+ * Looks up a room by ID.
+ * @param roomId The room ID.
+ */
+export function getRoom(roomId: string): Room | undefined {
+    return rooms.get(roomId);
+}
+
+/**
+ * Describes a member device as sent to the other members.
+ * @param ws The member device.
+ */
+export function toRoomPeer(ws: WebSocketClient): RoomPeer {
+    return { userId: ws.userId!, deviceId: ws.deviceId! };
+}
@@ -0,0 +1,260 @@
+import { z } from 'zod';
+import * as dotenv from 'dotenv';
+import { MessageType, PushPlatform, PresenceStatus, CallPolicy, ErrorCode, ErrorPayload } from './types';
+
+dotenv.config();
+
+// What to do with fields a schema does not know about
+export type UnknownFieldPolicy = 'reject' | 'strip' | 'allow';
+
+export const UNKNOWN_FIELD_POLICY = parseUnknownFieldPolicy(process.env.SCHEMA_UNKNOWN_FIELDS);
+
+// Size limits for client-supplied values
+export const MAX_ID_LENGTH              = 128;
+export const MAX_TOKEN_LENGTH           = 8192;
+export const MAX_SDP_LENGTH             = 64 * 1024;
+export const MAX_CANDIDATE_LENGTH       = 1024;
+export const MAX_MESSAGE_REQUEST_LENGTH = 16 * 1024; // Serialized payload of a message_request
+export const MAX_CALL_HISTORY_PAGE      = 100;
+export const MAX_PRESENCE_USERS         = 100; // User IDs per presence request
+export const MAX_HELLO_ENTRIES          = 32;  // Versions or features listed in hello
+
+function parseUnknownFieldPolicy(value: string | undefined): UnknownFieldPolicy {
+    if (value === 'reject' || value === 'strip' || value === 'allow') return value;
+    return 'strip';
+}
+
+// Object schema honouring the configured unknown field policy
+function object<T extends z.ZodRawShape>(shape: T) {
+    const schema = z.object(shape);
+    if (UNKNOWN_FIELD_POLICY === 'reject') return schema.strict();
+    if (UNKNOWN_FIELD_POLICY === 'allow')  return schema.passthrough();
+    return schema.strip();
+}
+
+const id = z.string().trim().min(1).max(MAX_ID_LENGTH);
+
+// --- Payload schemas ---
+
+export const loginPayloadSchema = object({
+    // Signed token; may be omitted if one was already presented during the HTTP upgrade
+    token:    z.string().min(1).max(MAX_TOKEN_LENGTH).optional(),
+    // Identifies this device among the user's devices; generated by the server if omitted
+    deviceId: id.optional()
+});
+
+export const registerPushPayloadSchema = object({
+    // userId is implicitly known from the connection (ws.userId)
+    pushToken: z.string().trim().min(1).max(4096),
+    platform:  z.nativeEnum(PushPlatform).optional() // Defaults to FCM for the Android client
+});
+
+export const offerPayloadSchema = object({
+    type: z.literal('offer'),
+    sdp:  z.string().min(1).max(MAX_SDP_LENGTH)
+});
+
+export const answerPayloadSchema = object({
+    type: z.literal('answer'),
+    sdp:  z.string().min(1).max(MAX_SDP_LENGTH)
+});
+
+export const candidatePayloadSchema = object({
+    candidate:     z.string().max(MAX_CANDIDATE_LENGTH), // Empty string signals end of candidates
+    sdpMid:        z.string().max(64).nullable(),
+    sdpMLineIndex: z.number().int().min(0).max(65535).nullable()
+});
+
+// Free-form application data, only bounded in size
+export const messageRequestPayloadSchema = z.record(z.unknown()).refine(
+    payload => JSON.stringify(payload).length <= MAX_MESSAGE_REQUEST_LENGTH,
+    { message: `Payload must not exceed ${MAX_MESSAGE_REQUEST_LENGTH} characters when serialized` }
+);
+
+export const messageAckPayloadSchema = object({
+    messageId: z.string().regex(/^\d{1,19}$/, 'Expected a numeric message ID')
+});
+
+export const joinRoomPayloadSchema = object({
+    roomId:   id,
+    password: z.string().min(1).max(256).optional() // Required if the room has a password; sets it when creating the room
+});
+
+export const leaveRoomPayloadSchema = object({
+    roomId: id
+});
+
+// reject, cancel, hangup and busy; the payload may be omitted
+export const callControlPayloadSchema = object({
+    reason: z.string().max(256).optional() // Free text passed on to the peer
+}).default({});
+
+export const getCallHistoryPayloadSchema = object({
+    limit:  z.number().int().min(1).max(MAX_CALL_HISTORY_PAGE).optional(), // Default 20
+    before: z.string().max(256).optional(),                                 // nextCursor of the previous page
+    filter: z.enum(['all', 'missed']).optional()                            // Default all
+}).default({});
+
+export const getIceServersPayloadSchema = object({}).default({});
+
+export const resumePayloadSchema = object({
+    token: z.string().min(1).max(256) // resumeToken from login_success or resumed
+});
+
+export const userListPayloadSchema = object({
+    userId: id
+});
+
+export const setCallPolicyPayloadSchema = object({
+    policy: z.nativeEnum(CallPolicy)
+});
+
+export const getPrivacyPayloadSchema = object({}).default({});
+
+export const helloPayloadSchema = object({
+    versions: z.array(z.number().int().positive()).min(1).max(MAX_HELLO_ENTRIES), // Protocol versions the client speaks
+    features: z.array(z.string().min(1).max(64)).max(MAX_HELLO_ENTRIES).optional() // Omitted: whatever the server offers
+});
+
+export const presenceUsersPayloadSchema = object({
+    userIds: z.array(id).min(1).max(MAX_PRESENCE_USERS)
+});
+
+export const setPresencePayloadSchema = object({
+    // Offline is reserved for users without a connected device
+    status: z.nativeEnum(PresenceStatus).refine(status => status !== PresenceStatus.Offline, { message: 'Status cannot be set to offline' })
+});
+
+// --- Message schemas ---
+
+// Every message may carry a client-chosen id (required from protocol 2 on, see protocol.ts)
+const messageId = id.optional();
+
+function message<T extends MessageType, P extends z.ZodTypeAny>(type: T, payload: P) {
+    return object({ type: z.literal(type), payload, id: messageId });
+}
+
+// Relayed messages name a target user, optionally a room and/or one of the target's devices.
+// Outside rooms they belong to a call; without a callId the active call with the target is assumed.
+function relayMessage<T extends MessageType, P extends z.ZodTypeAny>(type: T, payload: P) {
+    return object({
+        type:         z.literal(type),
+        payload,
+        target:       id,
+        room:         id.optional(),
+        targetDevice: id.optional(),
+        callId:       id.optional(),
+        id:           messageId
+    });
+}
+
+// Call control messages are never relayed within rooms
+function callControlMessage<T extends MessageType>(type: T) {
+    return object({
+        type:         z.literal(type),
+        payload:      callControlPayloadSchema,
+        target:       id,
+        targetDevice: id.optional(),
+        callId:       id.optional(),
+        id:           messageId
+    });
+}
+
+// Registry of every message type a client may send
+export const inboundMessageSchema = z.discriminatedUnion('type', [
+    message(MessageType.Hello, helloPayloadSchema),
+    message(MessageType.Login, loginPayloadSchema),
+    message(MessageType.RegisterPush, registerPushPayloadSchema),
+    relayMessage(MessageType.Offer, offerPayloadSchema),
+    relayMessage(MessageType.Answer, answerPayloadSchema),
+    relayMessage(MessageType.Candidate, candidatePayloadSchema),
+    relayMessage(MessageType.MessageRequest, messageRequestPayloadSchema),
+    message(MessageType.MessageAck, messageAckPayloadSchema),
+    message(MessageType.JoinRoom, joinRoomPayloadSchema),
+    message(MessageType.LeaveRoom, leaveRoomPayloadSchema),
+    callControlMessage(MessageType.Reject),
+    callControlMessage(MessageType.Cancel),
+    callControlMessage(MessageType.Hangup),
+    callControlMessage(MessageType.Busy),
+    message(MessageType.GetCallHistory, getCallHistoryPayloadSchema),
+    message(MessageType.GetIceServers, getIceServersPayloadSchema),
+    message(MessageType.SubscribePresence, presenceUsersPayloadSchema),
+    message(MessageType.UnsubscribePresence, presenceUsersPayloadSchema),
+    message(MessageType.GetPresence, presenceUsersPayloadSchema),
+    message(MessageType.SetPresence, setPresencePayloadSchema),
+    message(MessageType.Resume, resumePayloadSchema),
+    message(MessageType.BlockUser, userListPayloadSchema),
+    message(MessageType.UnblockUser, userListPayloadSchema),
+    message(MessageType.AddContact, userListPayloadSchema),
+    message(MessageType.RemoveContact, userListPayloadSchema),
+    message(MessageType.SetCallPolicy, setCallPolicyPayloadSchema),
+    message(MessageType.GetPrivacy, getPrivacyPayloadSchema)
+]);
+
+export type ValidationResult =
+    | { ok: true; message: z.infer<typeof inboundMessageSchema> }
+    | { ok: false; error: ErrorPayload; type?: MessageType; id?: string }; // id: the message's id, if it has a usable one
+
+const inboundTypes = new Set<string>(inboundMessageSchema.options.map(option => option.shape.type.value));
+
+// The same schema, dropping unknown fields at every level whatever the configured policy
+function stripping(schema: z.ZodTypeAny): z.ZodTypeAny {
+    if (schema instanceof z.ZodObject) {
+        const shape: z.ZodRawShape = {};
+        Object.entries(schema.shape as z.ZodRawShape).forEach(([key, field]) => { shape[key] = stripping(field); });
+        return z.object(shape).strip();
+    }
+    if (schema instanceof z.ZodDefault)  return stripping(schema.removeDefault()).default(schema._def.defaultValue());
+    if (schema instanceof z.ZodOptional) return stripping(schema.unwrap()).optional();
+    if (schema instanceof z.ZodNullable) return stripping(schema.unwrap()).nullable();
+    return schema; // Free-form payloads (message_request) are passed on as they are
+}
+
+const strippingSchemas = new Map<string, z.ZodTypeAny>(inboundMessageSchema.options.map(option => [option.shape.type.value, stripping(option)]));
+
+/**
+ * Validates a parsed (but untrusted) client message against the schema for its type.
+ * @param raw The value produced by JSON.parse.
+ * @returns The typed message, or a structured error to send back.
+ */
+export function validateInboundMessage(raw: unknown): ValidationResult {
+    const fields = typeof raw === 'object' && raw !== null ? raw as { type?: unknown; id?: unknown } : {};
+    const type = fields.type;
+    const parsedId = id.safeParse(fields.id);
+    const messageId = parsedId.success ? parsedId.data : undefined;
+    if (typeof type !== 'string' || !inboundTypes.has(type)) {
+        return {
+            ok: false,
+            id: messageId,
+            error: {
+                code:    ErrorCode.UnknownMessageType,
+                message: typeof type === 'string' ? `Unknown message type: ${type}` : 'Message type is missing'
+            }
+        };
+    }
+
+    const result = inboundMessageSchema.safeParse(raw);
+    if (result.success) return { ok: true, message: result.data };
+
+    return {
+        ok:   false,
+        type: type as MessageType,
+        id:   messageId,
+        error: {
+            code:    ErrorCode.InvalidMessage,
+            message: `Invalid ${type} message`,
+            details: result.error.issues.map(issue => ({ path: issue.path.join('.'), issue: issue.message }))
+        }
+    };
+}
+
+/**
+ * Drops the fields a validated message's schema does not define. Under the `allow` policy they survive validation;
+ * messages are passed through this before being relayed so that such fields never reach other users.
+ * @param message A message returned by validateInboundMessage.
+ * @returns The message without unknown fields.
+ */
+export function withoutUnknownFields<M extends z.infer<typeof inboundMessageSchema>>(message: M): M {
+    if (UNKNOWN_FIELD_POLICY !== 'allow') return message; // Validation already dropped or refused them
+    return strippingSchemas.get(message.type)!.parse(message) as M;
+}
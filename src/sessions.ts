@@ -0,0 +1,39 @@
+import { WebSocketClient, ClientMap } from './types';
+
+/**
+ * Registers a logged-in device session. ws.userId and ws.deviceId must already be set.
+ * @param clients Map of all currently connected clients.
+ * @param ws The device's WebSocket connection.
+ */
+export function addSession(clients: ClientMap, ws: WebSocketClient): void {
+    let devices = clients.get(ws.userId!);
+    if (!devices) {
+        devices = new Map<string, WebSocketClient>();
+        clients.set(ws.userId!, devices);
+    }
+    devices.set(ws.deviceId!, ws);
+}
+
+/**
+ * Removes a device session if it is still the registered one for its device.
+ * @param clients Map of all currently connected clients.
+ * @param ws The device's WebSocket connection.
+ * @returns True if the session was removed, false if it was not registered.
+ */
+export function removeSession(clients: ClientMap, ws: WebSocketClient): boolean {
+    const devices = ws.userId ? clients.get(ws.userId) : undefined;
+    if (!devices || devices.get(ws.deviceId!) !== ws) return false;
+    devices.delete(ws.deviceId!);
+    if (devices.size === 0) clients.delete(ws.userId!); // User went offline
+    return true;
+}
+
+/**
+ * Counts device sessions across all users.
+ * @param clients Map of all currently connected clients.
+ */
+export function countSessions(clients: ClientMap): number {
+    let count = 0;
+    clients.forEach(devices => { count += devices.size; });
+    return count;
+}
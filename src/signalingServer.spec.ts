@@ -0,0 +1,435 @@
+import { EventEmitter } from 'events';
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { createSignalingServer, SignalingServer, SignalingServerOptions, WS_CLOSE_GOING_AWAY, WS_CLOSE_TOKEN_EXPIRED } from './signalingServer';
+import { createInMemoryStorage } from './storage';
+import { connectTestClient, TestClient, TestClientError, ClientMessage } from './testClient';
+import { signLocalToken, createJwtAuthenticator, createLocalKeySource } from './auth';
+import { registerPushProvider } from './push';
+import { CALL_RING_TIMEOUT_SEC } from './calls';
+import { RATE_LIMITS, WS_CLOSE_BANNED } from './rateLimit';
+import { useClusterBackend, createInMemoryBus, createInMemoryDirectory, BROADCAST_ADDRESS } from './cluster';
+import { createFakePushProvider } from './push/fake';
+import {
+    SignalingMessage, MessageType, ErrorCode, PushPlatform, PushDeliveryStatus, PresenceStatus, CallRingingPayload, PushResultPayload,
+    PresencePayload, ServerDrainingPayload, RateLimitedPayload, CallState, CallEndedPayload, CallHistoryPayload, ResumedPayload
+} from './types';
+
+const HEARTBEAT_INTERVAL_MS = 100;
+const SECRET = 'test-secret';
+const authenticator = createJwtAuthenticator(createLocalKeySource({ hmacSecret: SECRET }));
+
+describe('signaling server', () => {
+    let server: SignalingServer;
+    let url: string;
+
+    async function startServer(options: SignalingServerOptions = {}): Promise<void> {
+        server = createSignalingServer({ port: 0, storage: createInMemoryStorage(), logger: { log() {} }, authenticator, ...options });
+        await server.start();
+        url = `ws://localhost:${server.port}`;
+    }
+
+    beforeEach(async () => {
+        await startServer({ heartbeatIntervalMs: HEARTBEAT_INTERVAL_MS });
+    });
+
+    afterEach(async () => {
+        await server.stop();
+    });
+
+    async function loggedIn(userId: string, deviceId?: string): Promise<TestClient> {
+        const client = await connectTestClient(url);
+        await client.login(signLocalToken(userId, SECRET), deviceId);
+        return client;
+    }
+
+    it('logs a device in', async () => {
+        const alice = await connectTestClient(url);
+        const success = await alice.login(signLocalToken('alice', SECRET), 'phone');
+        assert.equal(success.userId, 'alice');
+        assert.equal(success.deviceId, 'phone');
+        assert.ok(success.resumeToken);
+        assert.deepEqual(server.clients.get('alice')?.has('phone'), true);
+    });
+
+    it('refuses a login with an invalid token', async () => {
+        const mallory = await connectTestClient(url);
+        await assert.rejects(mallory.login('not-a-token'), (error: TestClientError) => error.code === ErrorCode.TokenInvalid);
+    });
+
+    it('closes a connection with 4001 once its login token expires', async () => {
+        const alice = await connectTestClient(url);
+        await alice.login(signLocalToken('alice', SECRET, 1));
+        const closed = await Promise.race([
+            alice.closed,
+            new Promise<null>(resolve => setTimeout(() => resolve(null), 3000))
+        ]);
+        assert.ok(closed, 'connection still open');
+        assert.equal(closed.code, WS_CLOSE_TOKEN_EXPIRED);
+
+        const late = await connectTestClient(url);
+        await assert.rejects(late.login(signLocalToken('alice', SECRET, -1)), (error: TestClientError) => error.code === ErrorCode.TokenExpired);
+    });
+
+    it('relays offer, answer and candidates between users', async () => {
+        const alice = await loggedIn('alice');
+        const bob = await loggedIn('bob');
+
+        alice.send({ type: MessageType.Offer, target: 'bob', payload: { type: 'offer', sdp: 'offer-sdp' } });
+        const offer = await bob.next(MessageType.Offer);
+        assert.equal(offer.sender, 'alice');
+        assert.equal(offer.payload.sdp, 'offer-sdp');
+        const ringing = (await alice.next(MessageType.CallRinging)).payload as CallRingingPayload;
+        assert.equal(ringing.callId, offer.callId);
+
+        bob.send({ type: MessageType.Answer, target: 'alice', callId: offer.callId, payload: { type: 'answer', sdp: 'answer-sdp' } });
+        const answer = await alice.next(MessageType.Answer);
+        assert.equal(answer.sender, 'bob');
+        assert.equal(answer.payload.sdp, 'answer-sdp');
+
+        alice.send({ type: MessageType.Candidate, target: 'bob', callId: offer.callId, payload: { candidate: 'candidate:1', sdpMid: '0', sdpMLineIndex: 0 } });
+        const candidate = await bob.next(MessageType.Candidate);
+        assert.equal(candidate.payload.candidate, 'candidate:1');
+    });
+
+    it('refuses messages that are not JSON, of no known type or of the wrong shape', async () => {
+        const alice = await loggedIn('alice');
+
+        alice.ws.send('{ not json');
+        assert.equal((await alice.next(MessageType.Error)).payload.code, ErrorCode.MalformedMessage);
+
+        alice.send({ type: 'teleport', target: 'bob' });
+        assert.equal((await alice.next(MessageType.Error)).payload.code, ErrorCode.UnknownMessageType);
+
+        alice.send({ type: MessageType.Candidate, target: 'bob', payload: { candidate: 'candidate:1', sdpMid: '0', sdpMLineIndex: 0.5 } });
+        const invalid = await alice.next(MessageType.Error);
+        assert.equal(invalid.originalType, MessageType.Candidate);
+        assert.equal(invalid.payload.code, ErrorCode.InvalidMessage);
+        assert.deepEqual(invalid.payload.details.map((detail: { path: string }) => detail.path), ['payload.sdpMLineIndex']);
+    });
+
+    it('strips fields no schema defines before relaying', async () => {
+        const alice = await loggedIn('alice');
+        const bob = await loggedIn('bob');
+
+        alice.send({ type: MessageType.Offer, target: 'bob', debug: true, payload: { type: 'offer', sdp: 'offer-sdp', secret: 'x' } });
+        const offer = await bob.next(MessageType.Offer);
+        assert.equal('debug' in offer, false);
+        assert.deepEqual(offer.payload, { type: 'offer', sdp: 'offer-sdp' });
+    });
+
+    it('refuses messages over the rate limit with rate_limited', async () => {
+        const alice = await loggedIn('alice');
+        for (let i = 0; i <= RATE_LIMITS.socket.burst; i++) alice.send({ type: MessageType.GetIceServers, payload: {} });
+        const limited = (await alice.next(MessageType.RateLimited)).payload as RateLimitedPayload;
+        assert.equal(limited.banned, false);
+        assert.ok(limited.retryAfterMs > 0);
+    });
+
+    it('bans an address that keeps failing to log in', async () => {
+        const mallory = await connectTestClient(url);
+        let refusal: SignalingMessage | undefined;
+        for (let attempt = 0; attempt <= RATE_LIMITS.loginFailure.burst; attempt++) {
+            mallory.send({ type: MessageType.Login, payload: { token: 'not-a-token' } });
+            refusal = await mallory.next();
+            if (refusal.type === MessageType.RateLimited) break;
+            assert.equal(refusal.payload.code, ErrorCode.TokenInvalid);
+        }
+        assert.equal(refusal?.type, MessageType.RateLimited);
+        assert.equal((refusal.payload as RateLimitedPayload).banned, true);
+        assert.equal((await mallory.closed).code, WS_CLOSE_BANNED);
+        await assert.rejects(connectTestClient(url), /HTTP 429/);
+    });
+
+    it('takes a call from ringing through answered to ended, refusing moves the state does not allow', async () => {
+        const alice = await loggedIn('alice');
+        const bob = await loggedIn('bob');
+        alice.send({ type: MessageType.Offer, target: 'bob', payload: { type: 'offer', sdp: 'offer-sdp' } });
+        const { callId } = await bob.next(MessageType.Offer);
+        bob.send({ type: MessageType.Answer, target: 'alice', callId, payload: { type: 'answer', sdp: 'answer-sdp' } });
+        await alice.next(MessageType.Answer);
+
+        bob.send({ type: MessageType.Reject, target: 'alice', callId });
+        assert.equal((await bob.next(MessageType.Error)).payload.code, ErrorCode.InvalidCallState);
+
+        bob.send({ type: MessageType.Hangup, target: 'alice', callId });
+        await alice.next(MessageType.Hangup);
+        alice.send({ type: MessageType.Hangup, target: 'bob', callId });
+        assert.equal((await alice.next(MessageType.Error)).payload.code, ErrorCode.CallFinished);
+
+        alice.send({ type: MessageType.GetCallHistory });
+        const [entry] = ((await alice.next(MessageType.CallHistory)).payload as CallHistoryPayload).calls;
+        assert.equal(entry.callId, callId);
+        assert.equal(entry.state, CallState.Ended);
+        assert.equal(entry.endReason, 'hangup');
+        assert.ok(entry.answeredAt);
+    });
+
+    it('ends a call nobody answers as missed once the ring timeout passes', async (t) => {
+        const alice = await loggedIn('alice');
+        const bob = await loggedIn('bob');
+        t.mock.timers.enable({ apis: ['setTimeout'] });
+        alice.send({ type: MessageType.Offer, target: 'bob', payload: { type: 'offer', sdp: 'offer-sdp' } });
+        await bob.next(MessageType.Offer);
+        await alice.next(MessageType.CallRinging);
+
+        t.mock.timers.tick(CALL_RING_TIMEOUT_SEC * 1000);
+        for (const client of [alice, bob]) {
+            const ended = (await client.next(MessageType.CallEnded)).payload as CallEndedPayload;
+            assert.equal(ended.state, CallState.Missed);
+            assert.equal(ended.reason, 'timeout');
+        }
+    });
+
+    it('wakes an offline callee with a push', async () => {
+        const push = createFakePushProvider();
+        registerPushProvider(PushPlatform.Fcm, push);
+        const bob = await loggedIn('bob', 'phone');
+        bob.send({ type: MessageType.RegisterPush, payload: { pushToken: 'bob-token', platform: PushPlatform.Fcm } });
+        await bob.next(MessageType.PushRegistered);
+        await bob.close();
+
+        const alice = await loggedIn('alice');
+        alice.send({ type: MessageType.Offer, target: 'bob', payload: { type: 'offer', sdp: 'offer-sdp' } });
+        const result = (await alice.next(MessageType.PushResult)).payload as PushResultPayload;
+        assert.equal(result.status, PushDeliveryStatus.Delivered);
+        assert.equal(push.sent.length, 1);
+        assert.equal(push.sent[0].pushToken, 'bob-token');
+        assert.equal(push.sent[0].notification.callerId, 'alice');
+        assert.equal(push.sent[0].notification.callId, result.callId);
+        await alice.next(MessageType.CallRinging);
+    });
+
+    // Drops alice's phone without a normal close, and has bob message her while her session is held
+    async function dropWithMessageWaiting(): Promise<string> {
+        const phone = await connectTestClient(url);
+        const { resumeToken } = await phone.login(signLocalToken('alice', SECRET), 'phone');
+        const bob = await loggedIn('bob');
+        phone.ws.terminate();
+        await phone.closed;
+        await new Promise(resolve => setTimeout(resolve, 50)); // Until the server notices
+        bob.send({ type: MessageType.MessageRequest, target: 'alice', payload: { text: 'still there?' } });
+        await new Promise(resolve => setTimeout(resolve, 50));
+        return resumeToken!;
+    }
+
+    it('resumes a dropped session and replays the messages buffered meanwhile', async () => {
+        const resumeToken = await dropWithMessageWaiting();
+        assert.equal(server.clients.get('alice')?.has('phone'), true);
+
+        const phone = await connectTestClient(url);
+        phone.send({ type: MessageType.Resume, payload: { token: resumeToken } });
+        const resumed = (await phone.next(MessageType.Resumed)).payload as ResumedPayload;
+        assert.equal(resumed.deviceId, 'phone');
+        assert.equal(resumed.replayed, 1);
+        assert.notEqual(resumed.resumeToken, resumeToken);
+        assert.equal((await phone.next(MessageType.MessageRequest)).payload.text, 'still there?');
+
+        const replay = await connectTestClient(url);
+        replay.send({ type: MessageType.Resume, payload: { token: resumeToken } });
+        assert.equal((await replay.next(MessageType.Error)).payload.code, ErrorCode.ResumeFailed);
+    });
+
+    it('lets a login from the same device take over a held session', async () => {
+        await dropWithMessageWaiting();
+
+        const phone = await connectTestClient(url);
+        assert.equal((await phone.login(signLocalToken('alice', SECRET), 'phone')).deviceId, 'phone');
+        const replayed = await phone.next(MessageType.MessageRequest);
+        assert.equal(replayed.payload.text, 'still there?');
+        assert.equal(replayed.messageId, undefined); // Replayed from the held session, not delivered from the mailbox
+    });
+
+    it('refuses a second login with the same device ID', async () => {
+        await loggedIn('alice', 'phone');
+        const second = await connectTestClient(url);
+        await assert.rejects(second.login(signLocalToken('alice', SECRET), 'phone'), (error: TestClientError) => error.code === ErrorCode.AlreadyLoggedIn);
+        await second.closed;
+    });
+
+    it('starts no session for a socket that closes while its login is pending', async () => {
+        // A directory slow to answer leaves the login waiting while the socket goes away
+        await server.stop();
+        const directory = createInMemoryDirectory();
+        const register = directory.register.bind(directory);
+        directory.register = async (...args) => {
+            await new Promise(resolve => setTimeout(resolve, 100));
+            return register(...args);
+        };
+        useClusterBackend(createInMemoryBus(), directory);
+        await startServer();
+
+        try {
+            const leaving = await connectTestClient(url);
+            leaving.send({ type: MessageType.Login, payload: { token: signLocalToken('alice', SECRET), deviceId: 'phone' } });
+            setTimeout(() => leaving.ws.terminate(), 20);
+            await leaving.closed;
+            await new Promise(resolve => setTimeout(resolve, 150));
+            assert.equal(server.clients.get('alice')?.has('phone') ?? false, false);
+
+            const returning = await connectTestClient(url);
+            assert.equal((await returning.login(signLocalToken('alice', SECRET), 'phone')).deviceId, 'phone');
+        } finally {
+            useClusterBackend(createInMemoryBus(), createInMemoryDirectory());
+        }
+    });
+
+    it('shows a user in a call held by another instance as busy', async () => {
+        await server.stop();
+        const hub = new EventEmitter();
+        useClusterBackend(createInMemoryBus(hub), createInMemoryDirectory());
+        await startServer();
+
+        try {
+            await loggedIn('alice');
+            const bob = await loggedIn('bob');
+            const aliceStatus = async () => {
+                bob.send({ type: MessageType.GetPresence, payload: { userIds: ['alice'] } });
+                return ((await bob.next(MessageType.Presence)).payload as PresencePayload).users[0].status;
+            };
+            // What the instance holding alice's call announces when it is answered, and when it finishes
+            const remote = createInMemoryBus(hub);
+            const announce = (answered: boolean) => remote.publish(BROADCAST_ADDRESS, {
+                userId: 'alice', deviceIds: [], topic: 'presence_call', message: { type: MessageType.Info, payload: { callId: 'remote-call', answered } }
+            });
+
+            await announce(true);
+            await new Promise(resolve => setImmediate(resolve));
+            assert.equal(await aliceStatus(), PresenceStatus.Busy);
+            await announce(false);
+            await new Promise(resolve => setImmediate(resolve));
+            assert.equal(await aliceStatus(), PresenceStatus.Online);
+        } finally {
+            useClusterBackend(createInMemoryBus(), createInMemoryDirectory());
+        }
+    });
+
+    it('offers no rooms when other instances share the bus', async () => {
+        await server.stop();
+        useClusterBackend(createInMemoryBus(new EventEmitter()), createInMemoryDirectory());
+        await startServer();
+
+        try {
+            const modern = await connectTestClient(url);
+            const welcome = await modern.hello();
+            assert.equal(welcome.features.includes('rooms'), false);
+
+            const legacy = await loggedIn('alice');
+            legacy.send({ type: MessageType.JoinRoom, payload: { roomId: 'standup' } });
+            const refused = await legacy.next(MessageType.Error);
+            assert.equal(refused.payload.code, ErrorCode.FeatureNotEnabled);
+        } finally {
+            useClusterBackend(createInMemoryBus(), createInMemoryDirectory());
+        }
+    });
+
+    it('acknowledges every message under protocol 2, correlating responses and errors with replyTo', async () => {
+        await loggedIn('bob');
+        const alice = await connectTestClient(url);
+        assert.equal((await alice.hello()).version, 2);
+        await alice.login(signLocalToken('alice', SECRET));
+
+        const ack = await alice.request({ type: MessageType.GetPresence, payload: { userIds: ['bob'] } });
+        assert.equal(ack.type, MessageType.Ack);
+        assert.equal(ack.originalType, MessageType.GetPresence);
+        const response = alice.received.find(message => message.type === MessageType.Presence);
+        assert.equal(response?.replyTo, ack.replyTo);
+        assert.ok(alice.received.indexOf(response!) < alice.received.indexOf(ack));
+
+        await assert.rejects(
+            alice.request({ type: MessageType.Offer, target: 'carol', payload: { type: 'offer', sdp: 'offer-sdp' } }),
+            (error: TestClientError) => error.code === ErrorCode.UserOffline && error.reply?.replyTo !== undefined
+        );
+
+        alice.send({ type: MessageType.GetPresence, payload: { userIds: ['bob'] } });
+        assert.equal((await alice.next(MessageType.Error)).payload.code, ErrorCode.InvalidMessage);
+    });
+
+    it('refuses the messages of features left out of hello', async () => {
+        const alice = await connectTestClient(url);
+        assert.deepEqual((await alice.hello([2], ['presence'])).features, ['presence']);
+        assert.equal((await alice.login(signLocalToken('alice', SECRET))).resumeToken, undefined);
+
+        await alice.request({ type: MessageType.GetPresence, payload: { userIds: ['bob'] } });
+        await assert.rejects(alice.request({ type: MessageType.GetCallHistory }), (error: TestClientError) => error.code === ErrorCode.FeatureNotEnabled);
+    });
+
+    it('answers a blocked user exactly as if the blocker were offline', async () => {
+        const alice = await loggedIn('alice');
+        const bob = await loggedIn('bob');
+        await (await loggedIn('carol')).close(); // Really offline, and seen before
+        bob.send({ type: MessageType.BlockUser, payload: { userId: 'alice' } });
+        await bob.next(MessageType.Privacy);
+
+        // What alice gets back about a user, with the user's name and anything unique taken out
+        const answerAbout = async (userId: string, message: ClientMessage, type: MessageType) => {
+            alice.send(message);
+            const answer = await alice.next(type);
+            if (answer.payload.messageId) answer.payload.messageId = 'id';
+            if (answer.type === MessageType.Presence) answer.payload.users[0].lastSeen = typeof answer.payload.users[0].lastSeen;
+            return JSON.parse(JSON.stringify(answer).split(userId).join('someone'));
+        };
+        const offer = (target: string): ClientMessage => ({ type: MessageType.Offer, target, payload: { type: 'offer', sdp: 'offer-sdp' } });
+        const request = (target: string): ClientMessage => ({ type: MessageType.MessageRequest, target, payload: { text: 'hi' } });
+        const presence = (target: string): ClientMessage => ({ type: MessageType.GetPresence, payload: { userIds: [target] } });
+
+        assert.deepEqual(await answerAbout('bob', offer('bob'), MessageType.Error), await answerAbout('carol', offer('carol'), MessageType.Error));
+        assert.deepEqual(await answerAbout('bob', request('bob'), MessageType.Queued), await answerAbout('carol', request('carol'), MessageType.Queued));
+        const blockerPresence = await answerAbout('bob', presence('bob'), MessageType.Presence);
+        assert.equal(blockerPresence.payload.users[0].status, PresenceStatus.Offline);
+        assert.deepEqual(blockerPresence, await answerAbout('carol', presence('carol'), MessageType.Presence));
+    });
+
+    it('terminates a connection that stops answering pings', async () => {
+        const silent = await connectTestClient(url, { autoPong: false });
+        await silent.login(signLocalToken('alice', SECRET));
+        const closed = await Promise.race([
+            silent.closed,
+            new Promise<null>(resolve => setTimeout(() => resolve(null), HEARTBEAT_INTERVAL_MS * 10))
+        ]);
+        assert.ok(closed, 'connection still open');
+        assert.notEqual(closed.code, 1000);
+    });
+
+    it('writes the last seen times of closed connections before closing the storage', async () => {
+        await server.stop();
+        const storage = createInMemoryStorage();
+        const writes: string[] = [];
+        const saveLastSeen = storage.presence.saveLastSeen.bind(storage.presence);
+        storage.presence.saveLastSeen = async (userId, lastSeenAt) => {
+            await new Promise(resolve => setTimeout(resolve, 50));
+            await saveLastSeen(userId, lastSeenAt);
+            writes.push(`last seen ${userId}`);
+        };
+        const close = storage.close.bind(storage);
+        storage.close = async () => {
+            writes.push('closed');
+            await close();
+        };
+        await startServer({ storage });
+
+        await loggedIn('alice');
+        await server.stop();
+        assert.deepEqual(writes, ['last seen alice', 'closed']);
+    });
+
+    it('drains and then closes every connection with 1001', async () => {
+        const alice = await loggedIn('alice');
+        await loggedIn('bob');
+
+        const drained = server.drain(1000);
+        const notice = (await alice.next(MessageType.ServerDraining)).payload as ServerDrainingPayload;
+        assert.ok(notice.deadline > Date.now());
+        assert.equal(server.draining, true);
+
+        alice.send({ type: MessageType.Offer, target: 'bob', payload: { type: 'offer', sdp: 'offer-sdp' } });
+        const refused = await alice.next(MessageType.Error);
+        assert.equal(refused.payload.code, ErrorCode.ServerDraining);
+        await assert.rejects(connectTestClient(url), /HTTP 503/);
+
+        await drained;
+        await server.stop();
+        const closed = await alice.closed;
+        assert.equal(closed.code, WS_CLOSE_GOING_AWAY);
+    });
+});
@@ -0,0 +1,415 @@
+import WebSocket, { WebSocketServer } from 'ws';
+import { v4 as uuidv4 } from 'uuid';
+import * as dotenv from 'dotenv';
+import http, { IncomingMessage } from 'http';
+import { AddressInfo } from 'net';
+import { WebSocketClient, SignalingMessage, MessageType, AuthClaims, ErrorCode, ClientMap, RoomPeerEventPayload, ServerDrainingPayload } from './types';
+import { Storage, getStorage, useStorage } from './storage';
+import { handleWebSocketMessage, deliverToDevice } from './messageHandler';
+import { validateInboundMessage } from './schemas';
+import { ACK_PROTOCOL_VERSION, getProtocolVersion, runRequest } from './protocol';
+import { createHttpHandler, RequestHandler } from './http';
+import { gauge, connectionsTotal, loginsTotal, heartbeatTerminationsTotal } from './metrics';
+import { sendWsMessage, broadcast } from './wsUtils';
+import { authenticator as defaultAuthenticator, Authenticator, extractUpgradeToken, AuthError } from './auth';
+import {
+    RATE_LIMITS, getClientAddress, checkConnection, trackConnection, releaseConnection, checkMessage,
+    recordLoginFailure, rejectRateLimited, pruneRateLimiters, resetRateLimiters
+} from './rateLimit';
+import { removeSession, countSessions } from './sessions';
+import { endCallsOfDevice, countCallsSettingUp } from './calls';
+import { purgeOldCallHistory } from './callHistory';
+import { leaveAllRooms, toRoomPeer } from './rooms';
+import { startPresence, dropPresenceSubscriptions, deviceDisconnected } from './presence';
+import { RESUME_GRACE_SEC, holdSession, discardResumeToken, discardAllResumeTokens, closeWithoutResume } from './resume';
+import { startCluster, stopCluster, releaseDeviceSession } from './cluster';
+import { logger, useLogger, withLogContext, Logger, LogFields } from './logger';
+
+dotenv.config();
+
+export const WS_CLOSE_TOKEN_EXPIRED = 4001; // Application close code sent when a login token expires
+export const WS_CLOSE_GOING_AWAY = 1001;    // Sent to every connection when the server stops
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 30000;
+const DEFAULT_DRAIN_TIMEOUT_MS = 30000;
+const DRAIN_RECONNECT_SPREAD_MS = 10000; // Reconnect hints are spread over this, so that clients do not all arrive elsewhere at once
+const DRAIN_POLL_MS = 250;
+const DRAIN_SETTLE_MS = 5000; // Answered calls still exchange ICE candidates for a few seconds; drain waits for that too
+const CLOSE_TIMEOUT_MS = 2000; // Connections that have not completed the close handshake by then are terminated
+const PURGE_INTERVAL_MS = 3600000; // Expired offline messages and old call records are removed hourly
+
+// Identifies the connection in log entries about it
+function connectionLogFields(ws: WebSocketClient): LogFields {
+    return { connectionId: ws.connectionId, userId: ws.userId, deviceId: ws.deviceId };
+}
+
+// Identifies the message being handled in log entries (new calls get their ID from the calls module's entries)
+function messageLogFields(message: SignalingMessage): LogFields {
+    return { messageType: message.type, messageId: message.id, target: message.target, callId: message.callId, room: message.room };
+}
+
+export interface SignalingServerOptions {
+    port?:                number;       // Port to listen on; 0 picks a free one (default WEBSOCKET_PORT, or 8080)
+    server?:              http.Server;  // Existing HTTP server to accept WebSocket upgrades on instead; it is not listened on or closed
+    storage?:             Storage;      // Default: the storage installed with useStorage or configureStorageFromEnv
+    logger?:              Logger;       // Default: the winston logger in logger.ts
+    authenticator?:       Authenticator; // Verifies login tokens; default: JWTs checked against JWT_SECRET / JWT_PUBLIC_KEY (see auth.ts)
+    heartbeatIntervalMs?: number;       // Ping interval; connections that miss a pong by the next ping are terminated (default 30000)
+    drainTimeoutMs?:      number;       // How long drain() waits for calls that are still being set up (default 30000)
+}
+
+export interface SignalingServer {
+    readonly clients: ClientMap;            // Devices connected to this instance: userId -> (deviceId -> connection)
+    readonly storage: Storage;
+    readonly port:    number | undefined;   // Port listened on, once started
+    readonly handleHttp: RequestHandler;    // Health, metrics, ICE and admin routes, for mounting in an embedding app
+    readonly draining: boolean;
+    start(): Promise<void>;
+    // Refuses new connections, logins and calls, sends clients server_draining and waits until no call is being set up, up to the timeout
+    drain(timeoutMs?: number): Promise<void>;
+    // Closes every connection (1001), leaves the cluster and closes the storage; drain first to let calls being set up finish
+    stop(): Promise<void>;
+}
+
+// Upgrade request carrying the claims verified in verifyClient
+interface UpgradeRequest extends IncomingMessage {
+    auth?: AuthClaims;
+}
+
+/**
+ * Creates a signaling server without starting it. Push providers and the cluster backend are configured
+ * separately (see push/index.ts and cluster/index.ts); their state, like that of calls, rooms and presence,
+ * is per process, so run one signaling server per process.
+ * @param options Port, storage, logger, heartbeat and drain settings.
+ */
+export function createSignalingServer(options: SignalingServerOptions = {}): SignalingServer {
+    if (options.logger) useLogger(options.logger);
+    if (options.storage) useStorage(options.storage);
+    const storage = getStorage();
+    const authenticator = options.authenticator ?? defaultAuthenticator;
+    const heartbeatIntervalMs = options.heartbeatIntervalMs ?? DEFAULT_HEARTBEAT_INTERVAL_MS;
+    const clients: ClientMap = new Map();
+    const handleHttp = createHttpHandler(clients, storage, () => drained !== null, authenticator);
+
+    let httpServer: http.Server | null = null; // Serves the WebSocket upgrades and, unless embedded, the HTTP routes
+    let wss: WebSocketServer | null = null;
+    let heartbeatInterval: NodeJS.Timeout | null = null;
+    let purgeInterval: NodeJS.Timeout | null = null;
+    let drained: Promise<void> | null = null; // Set once drain() is called
+    let offersInProgress = 0; // New-call offers being handled, whose call may not be tracked yet
+    const pendingDisconnects = new Set<Promise<void>>(); // Session releases and last-seen writes of removed devices
+
+    async function start(): Promise<void> {
+        logger.log({ level: 'info', message: 'Initializing signaling server...' });
+        drained = null;
+        await storage.start();
+        await startCluster(clients, deliverToDevice);
+        startPresence(storage);
+
+        httpServer = options.server ?? http.createServer(handleHttp);
+        wss = new WebSocketServer({
+            server: httpServer,
+            maxPayload: RATE_LIMITS.maxMessageBytes, // Larger frames close the connection (1009)
+            // A token presented on the upgrade request is verified before the socket is accepted.
+            // Connections without one are still accepted and must authenticate via the login message.
+            verifyClient: (info, callback) => {
+                if (drained) return callback(false, 503, 'Server Draining');
+                const address = getClientAddress(info.req);
+                const decision = checkConnection(address);
+                if (!decision.allowed) {
+                    logger.log({ level: 'warn', message: `Rejected upgrade from ${address}: ${decision.banned ? 'banned' : 'too many connections'}` });
+                    return callback(false, 429, 'Too Many Requests', { 'Retry-After': String(Math.ceil(decision.retryAfterMs / 1000)) });
+                }
+
+                const token = extractUpgradeToken(info.req);
+                if (!token) return callback(true);
+                authenticator.authenticate(token).then((claims) => {
+                    (info.req as UpgradeRequest).auth = claims;
+                    callback(true);
+                }).catch((err) => {
+                    const code = err instanceof AuthError ? err.code : ErrorCode.TokenInvalid;
+                    logger.log({ level: 'warn', message: `Rejected upgrade from ${address}: ${err}` });
+                    loginsTotal.inc('failure');
+                    recordLoginFailure(address);
+                    callback(false, 401, code);
+                });
+            }
+        });
+        wss.on('connection', acceptConnection);
+
+        gauge('signaling_open_connections', 'Open WebSocket connections, logged in or not', () => wss?.clients.size ?? 0);
+        gauge('signaling_device_sessions', 'Logged-in device sessions on this instance', () => countSessions(clients));
+        if (storage.poolStats) {
+            const poolStats = storage.poolStats.bind(storage);
+            gauge('signaling_db_pool_clients', 'Database pool connections by state', () => {
+                const stats = poolStats();
+                return { total: stats.totalCount, idle: stats.idleCount, waiting: stats.waitingCount };
+            }, 'state');
+        }
+
+        heartbeatInterval = setInterval(heartbeat, heartbeatIntervalMs);
+        purgeInterval = setInterval(() => {
+            storage.offlineMessages.purgeExpired().catch(() => { /* logged by the storage */ });
+            purgeOldCallHistory(storage).catch(() => { /* logged by the storage */ });
+        }, PURGE_INTERVAL_MS);
+
+        if (!options.server) {
+            const server = httpServer;
+            await new Promise<void>((resolve, reject) => {
+                server.once('error', reject);
+                server.listen(options.port ?? parseInt(process.env.WEBSOCKET_PORT || '8080', 10), () => {
+                    server.off('error', reject);
+                    resolve();
+                });
+            });
+        }
+        logger.log({ level: 'info', message: `Signaling server started on ws://localhost:${port()}` });
+    }
+
+    function drain(timeoutMs = options.drainTimeoutMs ?? DEFAULT_DRAIN_TIMEOUT_MS): Promise<void> {
+        if (!drained) drained = waitForRingingCalls(timeoutMs);
+        return drained;
+    }
+
+    async function waitForRingingCalls(timeoutMs: number): Promise<void> {
+        const deadline = Date.now() + timeoutMs;
+        logger.log({ level: 'info', message: `Draining: refusing new connections, logins and calls, ${wss?.clients.size ?? 0} connection(s) open` });
+        wss?.clients.forEach((client) => {
+            const payload: ServerDrainingPayload = { reconnectAfterMs: Math.floor(Math.random() * Math.min(DRAIN_RECONNECT_SPREAD_MS, timeoutMs)), deadline };
+            sendWsMessage(client as WebSocketClient, { type: MessageType.ServerDraining, payload });
+        });
+
+        // Calls being set up still need the offer/answer and candidate exchange relayed; established ones do not
+        const settingUp = () => offersInProgress + countCallsSettingUp(DRAIN_SETTLE_MS);
+        while (settingUp() > 0 && Date.now() < deadline) {
+            await new Promise(resolve => setTimeout(resolve, DRAIN_POLL_MS));
+        }
+        const remaining = settingUp();
+        logger.log({ level: remaining > 0 ? 'warn' : 'info', message: `Draining: done${remaining > 0 ? `, deadline reached with ${remaining} call(s) still being set up` : ''}` });
+    }
+
+    async function stop(): Promise<void> {
+        if (heartbeatInterval) clearInterval(heartbeatInterval);
+        if (purgeInterval) clearInterval(purgeInterval);
+        heartbeatInterval = purgeInterval = null;
+
+        if (wss) {
+            // 1. Close all client connections; without resume tokens their sessions are removed, not held
+            logger.log({ level: 'info', message: `Closing ${wss.clients.size} active client connections...` });
+            discardAllResumeTokens();
+            wss.clients.forEach(client => client.close(WS_CLOSE_GOING_AWAY, 'Server shutting down'));
+            const server = wss;
+            const cutOff = setTimeout(() => server.clients.forEach(client => client.terminate()), CLOSE_TIMEOUT_MS);
+
+            // 2. Close the WebSocket server, and the HTTP server unless it belongs to the embedding app
+            await new Promise<void>(resolve => server.close(() => resolve())); // Once every connection has closed
+            clearTimeout(cutOff);
+            clients.clear();
+            if (httpServer && !options.server) {
+                const owned = httpServer;
+                await new Promise<void>(resolve => owned.close(() => resolve()));
+            }
+            wss = httpServer = null;
+            logger.log({ level: 'info', message: 'WebSocket server closed.' });
+        }
+
+        // 3. Let the removed sessions be released and their last seen times written
+        await Promise.allSettled(pendingDisconnects);
+
+        // 4. Leave the cluster and close the storage once nothing uses them
+        await stopCluster();
+        await storage.close();
+        resetRateLimiters();
+    }
+
+    function port(): number | undefined {
+        const address = httpServer?.address();
+        return address && typeof address === 'object' ? (address as AddressInfo).port : undefined;
+    }
+
+    function acceptConnection(ws: WebSocketClient, req: IncomingMessage): void {
+        // Initial setup for new connection
+        ws.clientId = uuidv4();
+        ws.connectionId = ws.clientId;
+        ws.isAlive = true;
+        ws.upgradeAuth = (req as UpgradeRequest).auth;
+        ws.remoteAddress = getClientAddress(req);
+        ws.connectedAt = Date.now();
+        trackConnection(ws.remoteAddress);
+        connectionsTotal.inc();
+        logger.log({ level: 'info', message: 'Client connected', connectionId: ws.connectionId, remoteAddress: ws.remoteAddress });
+
+        // Heartbeat listener
+        ws.on('pong', () => {
+            ws.isAlive = true;
+        });
+
+        // Message listener: Parse, validate and delegate to handler
+        ws.on('message', (messageBuffer: Buffer) => withLogContext(() => connectionLogFields(ws), async () => {
+            const receivedAt = Date.now();
+            // Rate limits are applied before any parsing work is done
+            const decision = checkMessage(ws);
+            if (!decision.allowed) {
+                rejectRateLimited(ws, decision);
+                return;
+            }
+
+            let raw: unknown;
+            try {
+                raw = JSON.parse(messageBuffer.toString());
+            } catch (e: any) {
+                logger.log({ level: 'warn', message: `Malformed message: ${e.message}`, bytes: messageBuffer.length });
+                sendWsMessage(ws, { type: MessageType.Error, payload: { message: 'Message is not valid JSON', code: ErrorCode.MalformedMessage } });
+                return;
+            }
+
+            // Protocol 2 clients number their messages; replies carry the number back as replyTo
+            const acks = getProtocolVersion(ws) >= ACK_PROTOCOL_VERSION;
+
+            // Nothing past this point sees a message that does not match its schema
+            const result = validateInboundMessage(raw);
+            if (!result.ok) {
+                logger.log({ level: 'warn', message: `Rejected message: ${result.error.message}`, messageType: result.type, details: result.error.details });
+                sendWsMessage(ws, { type: MessageType.Error, payload: result.error, originalType: result.type, replyTo: acks ? result.id : undefined });
+                return;
+            }
+
+            const message = result.message;
+            if (acks && message.id === undefined && message.type !== MessageType.Hello) {
+                sendWsMessage(ws, { type: MessageType.Error, payload: { message: `Messages must carry an id under protocol ${getProtocolVersion(ws)}`, code: ErrorCode.InvalidMessage }, originalType: message.type });
+                return;
+            }
+            // A draining instance starts no sessions; the client should connect again, to another instance
+            if (drained && !ws.userId && (message.type === MessageType.Login || message.type === MessageType.Resume)) {
+                sendWsMessage(ws, { type: MessageType.Error, payload: { message: 'Server is shutting down; connect again', code: ErrorCode.ServerDraining }, originalType: message.type, replyTo: message.id });
+                return;
+            }
+            // Nor does it start calls, which could not finish setting up before it closes; the caller should retry after reconnecting
+            const startsCall = message.type === MessageType.Offer && message.callId === undefined;
+            if (drained && startsCall) {
+                sendWsMessage(ws, { type: MessageType.Error, payload: { message: 'Server is shutting down; call again after reconnecting', code: ErrorCode.ServerDraining }, originalType: message.type, replyTo: message.id });
+                return;
+            }
+
+            if (startsCall) offersInProgress++;
+            await withLogContext(() => messageLogFields(message), async () => {
+                const failed = await runRequest(ws, message.id, async () => {
+                    try {
+                        // Delegate processing to the message handler
+                        // Pass the actual 'clients' map
+                        await handleWebSocketMessage(ws, message, clients, storage, authenticator);
+                    } catch (e: any) {
+                        logger.log({ level: 'error', message: `Failed to handle ${message.type}: ${e.message}` });
+                        sendWsMessage(ws, { type: MessageType.Error, payload: { message: 'Server error processing message', code: ErrorCode.ServerError }, originalType: message.type });
+                    }
+                });
+                logger.log({ level: 'info', message: `Handled ${message.type}`, latencyMs: Date.now() - receivedAt, failed });
+                // hello is answered with welcome instead
+                if (acks && !failed && message.type !== MessageType.Hello) {
+                    sendWsMessage(ws, { type: MessageType.Ack, payload: {}, originalType: message.type, replyTo: message.id });
+                }
+            }).finally(() => {
+                if (startsCall) offersInProgress--;
+            });
+        }));
+
+        // Close listener: Clean up client map and notify others
+        ws.on('close', (code, reason) => withLogContext(() => connectionLogFields(ws), () => {
+            const userId = ws.userId;
+            const clientId = ws.clientId; // Use temp ID if login never happened
+            logger.log({ level: 'info', message: `Client disconnected: ${userId || clientId}`, code, reason: reason.toString() });
+            releaseConnection(ws.remoteAddress!);
+            if (userId) {
+                // A dropped connection (anything but a normal close) keeps its session for a while, so the device can resume it
+                if (code !== 1000 && holdSession(ws, () => removeClient(ws, 'not resumed'))) {
+                    logger.log({ level: 'info', message: `Holding session of ${userId} (device ${ws.deviceId}) for ${RESUME_GRACE_SEC}s` });
+                } else {
+                    removeClient(ws, 'disconnected');
+                }
+            } else {
+                 logger.log({ level: 'info', message: `Unauthenticated client ${clientId} disconnected.` });
+            }
+        }));
+
+        // Error listener: Log error and close; the close listener cleans up
+        ws.on('error', (error) => withLogContext(() => connectionLogFields(ws), () => {
+            const userId = ws.userId;
+            const clientId = ws.clientId;
+            logger.log({ level: 'error', message: `WebSocket error for ${userId || clientId}: ${error}` });
+            if (ws.readyState !== WebSocket.CLOSED && ws.readyState !== WebSocket.CLOSING) {
+                 ws.terminate();
+            }
+        }));
+    }
+
+    function heartbeat(): void {
+        // Use 'wss.clients' provided by the 'ws' library to iterate
+        // This is safer than iterating our potentially out-of-sync 'clients' map for pings
+        wss?.clients.forEach((wsInstance) => {
+            // Cast to our extended type to access custom properties
+            const client = wsInstance as WebSocketClient;
+            withLogContext(() => connectionLogFields(client), () => checkAlive(client));
+        });
+        pruneRateLimiters();
+    }
+
+    function checkAlive(client: WebSocketClient): void {
+        if (!client.isAlive) {
+            logger.log({ level: 'info', message: `Heartbeat failed for ${client.userId || client.clientId}. Terminating.` });
+            heartbeatTerminationsTotal.inc();
+            client.terminate();
+            return;
+        }
+        // Long-lived sockets are closed once their login token expires (unless refreshed via login)
+        if (client.authExpiresAt && client.authExpiresAt <= Date.now()) {
+            logger.log({ level: 'info', message: `Login token expired for ${client.userId}. Closing connection.` });
+            sendWsMessage(client, { type: MessageType.Error, payload: { message: 'Login token has expired', code: ErrorCode.TokenExpired } });
+            closeWithoutResume(client, WS_CLOSE_TOKEN_EXPIRED, 'Token expired');
+            return;
+        }
+        client.isAlive = false;
+        client.ping();
+    }
+
+    /**
+     * Removes a device session and tells the devices it was in a call or room with.
+     * Safe to call more than once for the same socket.
+     * @param ws The device's WebSocket connection.
+     * @param cause Why the session ended, for logging.
+     */
+    function removeClient(ws: WebSocketClient, cause: string): void {
+        const userId = ws.userId!;
+        const deviceId = ws.deviceId!;
+        if (!removeSession(clients, ws)) return;
+        discardResumeToken(ws);
+        logger.log({ level: 'info', message: `Device ${deviceId} of ${userId} removed (${cause}). Total sessions: ${countSessions(clients)}` });
+        dropPresenceSubscriptions(ws);
+
+        leaveAllRooms(ws).forEach((room) => {
+            const event: RoomPeerEventPayload = { roomId: room.id, peer: toRoomPeer(ws) };
+            broadcast(room.members, { type: MessageType.PeerLeft, payload: event });
+        });
+
+        // Only the other side of this device's calls needs to know it is gone, wherever in the cluster it is
+        endCallsOfDevice(userId, deviceId);
+
+        // Subscribers see the user go offline once their last device is released cluster-wide
+        const disconnected = releaseDeviceSession(userId, deviceId).then(() => deviceDisconnected(storage, userId));
+        pendingDisconnects.add(disconnected);
+        disconnected.finally(() => pendingDisconnects.delete(disconnected));
+    }
+
+    return {
+        clients,
+        storage,
+        get port() {
+            return port();
+        },
+        handleHttp,
+        get draining() {
+            return drained !== null;
+        },
+        start,
+        drain,
+        stop
+    };
+}
@@ -0,0 +1,53 @@
+import { Pool } from 'pg';
+import * as dotenv from 'dotenv';
+import { moduleLogger } from '../logger';
+import { createInMemoryStorage } from './memory';
+import { createPgPool, createPgStorage } from './postgres';
+import { Storage } from './types';
+
+export * from './types';
+export { createInMemoryStorage } from './memory';
+export { createPgPool, createPgStorage } from './postgres';
+
+dotenv.config();
+
+const logger = moduleLogger('storage');
+
+let pgPool: Pool | null = null;
+// Until configureStorageFromEnv or useStorage installs another backend
+let storage: Storage = createInMemoryStorage();
+
+/**
+ * The pool for DATABASE_URL, shared by the PostgreSQL storage and cluster backends. Created on first use,
+ * so that nothing connects to PostgreSQL unless one of them is selected.
+ */
+export function getPgPool(): Pool {
+    if (!pgPool) pgPool = createPgPool(process.env.DATABASE_URL);
+    return pgPool;
+}
+
+/**
+ * Installs the storage used by the modules that persist data outside message handling (call records,
+ * presence, push token cleanup), e.g. an in-memory one in tests. Pass the same storage to handleWebSocketMessage.
+ * @param backend The storage.
+ */
+export function useStorage(backend: Storage): void {
+    storage = backend;
+    logger.log({ level: 'info', message: `Storage: using ${backend.name} backend` });
+}
+
+export function getStorage(): Storage {
+    return storage;
+}
+
+/**
+ * Selects the storage from STORAGE_BACKEND: `postgres` (default, the DATABASE_URL database)
+ * or `memory` (kept in process, lost on restart).
+ * @returns The installed storage; call start() on it before use.
+ */
+export function configureStorageFromEnv(): Storage {
+    const backend = process.env.STORAGE_BACKEND || 'postgres';
+    if (backend !== 'postgres' && backend !== 'memory') throw new Error(`Unknown STORAGE_BACKEND: ${backend}`);
+    useStorage(backend === 'memory' ? createInMemoryStorage() : createPgStorage(getPgPool()));
+    return storage;
+}
@@ -0,0 +1,204 @@
+import { CallState, CallPolicy, PresenceStatus, PushPlatform, SignalingMessage } from '../types';
+import {
+    Storage, PushTokenStore, OfflineMessageStore, CallRecordStore, PresenceStore, PrivacyStore, CallRecord, PresenceRecord, UserList
+} from './types';
+
+// Round-trip through JSON so that callers never share stored objects, as with a database
+function copy<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Storage held in process memory, for local development and tests. Nothing survives a restart,
+ * and every instance has its own data, so it does not suit several instances.
+ */
+export function createInMemoryStorage(): Storage {
+    return {
+        name: 'memory',
+        pushTokens:      createPushTokenStore(),
+        offlineMessages: createOfflineMessageStore(),
+        callRecords:     createCallRecordStore(),
+        presence:        createPresenceStore(),
+        privacy:         createPrivacyStore(),
+        async start(): Promise<void> { /* Nothing to prepare */ },
+        async checkHealth() {
+            return { ok: true, backend: 'memory' };
+        },
+        async close(): Promise<void> { /* Nothing to release */ }
+    };
+}
+
+function createPushTokenStore(): PushTokenStore {
+    // userId -> (deviceId -> token); re-inserted on update so that iteration order is registration order
+    const tokens = new Map<string, Map<string, { pushToken: string; platform: PushPlatform }>>();
+
+    return {
+        async save(userId, deviceId, pushToken, platform) {
+            let devices = tokens.get(userId);
+            if (!devices) {
+                devices = new Map();
+                tokens.set(userId, devices);
+            }
+            devices.delete(deviceId);
+            devices.set(deviceId, { pushToken, platform });
+        },
+        async list(userId) {
+            return Array.from(tokens.get(userId) || [], ([deviceId, token]) => ({ deviceId, ...token })).reverse();
+        },
+        async delete(userId, pushToken) {
+            const devices = tokens.get(userId);
+            devices?.forEach((token, deviceId) => {
+                if (token.pushToken === pushToken) devices.delete(deviceId);
+            });
+            if (devices?.size === 0) tokens.delete(userId);
+        }
+    };
+}
+
+interface StoredMessage {
+    id:          number;
+    recipientId: string;
+    senderId:    string;
+    message:     SignalingMessage;
+    expiresAt:   number;
+}
+
+function createOfflineMessageStore(): OfflineMessageStore {
+    const messages = new Map<number, StoredMessage>(); // In ID order
+    let nextId = 1;
+
+    const unexpiredFor = (recipientId: string) => {
+        const now = Date.now();
+        return Array.from(messages.values()).filter(stored => stored.recipientId === recipientId && stored.expiresAt > now);
+    };
+    const toRecord = (stored: StoredMessage) => ({ id: String(stored.id), senderId: stored.senderId, message: copy(stored.message) });
+
+    return {
+        async queue(recipientId, senderId, message, ttlSec, maxPerRecipient) {
+            if (unexpiredFor(recipientId).length >= maxPerRecipient) return null;
+            const id = nextId++;
+            messages.set(id, { id, recipientId, senderId, message: copy(message), expiresAt: Date.now() + ttlSec * 1000 });
+            return String(id);
+        },
+        async list(recipientId) {
+            return unexpiredFor(recipientId).map(toRecord);
+        },
+        async delete(recipientId, messageId) {
+            const stored = messages.get(Number(messageId));
+            if (!stored || stored.recipientId !== recipientId) return null;
+            messages.delete(stored.id);
+            return toRecord(stored);
+        },
+        async deleteFrom(recipientId, senderId) {
+            const removed = Array.from(messages.values()).filter(stored => stored.recipientId === recipientId && stored.senderId === senderId);
+            removed.forEach(stored => messages.delete(stored.id));
+            return removed.length;
+        },
+        async purgeExpired() {
+            const now = Date.now();
+            const expired = Array.from(messages.values()).filter(stored => stored.expiresAt <= now);
+            expired.forEach(stored => messages.delete(stored.id));
+            return expired.length;
+        },
+        async reserveId() {
+            return String(nextId++);
+        }
+    };
+}
+
+// Newest first, like ORDER BY started_at DESC, call_id DESC
+function compareNewestFirst(a: { startedAt: Date; callId: string }, b: { startedAt: Date; callId: string }): number {
+    return b.startedAt.getTime() - a.startedAt.getTime() || (a.callId < b.callId ? 1 : a.callId > b.callId ? -1 : 0);
+}
+
+function createCallRecordStore(): CallRecordStore {
+    const records = new Map<string, CallRecord>();
+
+    return {
+        async save(record) {
+            records.set(record.callId, { ...record });
+        },
+        async history(userId, limit, before, missedOnly = false) {
+            return Array.from(records.values())
+                .filter(record => missedOnly
+                    ? record.calleeId === userId && (record.state === CallState.Missed || record.state === CallState.Cancelled)
+                    : record.callerId === userId || record.calleeId === userId)
+                .filter(record => !before || compareNewestFirst(before, record) < 0)
+                .sort(compareNewestFirst)
+                .slice(0, limit)
+                .map(record => ({ ...record }));
+        },
+        async purgeOlderThan(retentionDays) {
+            const cutoff = Date.now() - retentionDays * 86400000;
+            const old = Array.from(records.values()).filter(record => record.startedAt.getTime() < cutoff);
+            old.forEach(record => records.delete(record.callId));
+            return old.length;
+        }
+    };
+}
+
+function createPresenceStore(): PresenceStore {
+    const presence = new Map<string, PresenceRecord>();
+
+    return {
+        async get(userIds) {
+            const found = new Map<string, PresenceRecord>();
+            userIds.forEach((userId) => {
+                const record = presence.get(userId);
+                if (record) found.set(userId, { ...record });
+            });
+            return found;
+        },
+        async saveStatus(userId, status) {
+            presence.set(userId, { ...presence.get(userId), status });
+        },
+        async saveLastSeen(userId, lastSeenAt) {
+            presence.set(userId, { status: PresenceStatus.Online, ...presence.get(userId), lastSeenAt });
+        }
+    };
+}
+
+function createPrivacyStore(): PrivacyStore {
+    // list -> userId -> other users, in the order they were added, with when they were added
+    const lists: Record<UserList, Map<string, Map<string, Date>>> = { blocks: new Map(), contacts: new Map() };
+    const policies = new Map<string, CallPolicy>();
+
+    const entries = (list: UserList, userId: string) => lists[list].get(userId) || new Map<string, Date>();
+
+    return {
+        async addListEntry(list, userId, otherId, maxEntries) {
+            const current = entries(list, userId);
+            if (current.has(otherId)) return true;
+            if (current.size >= maxEntries) return false;
+            lists[list].set(userId, current.set(otherId, new Date()));
+            return true;
+        },
+        async removeListEntry(list, userId, otherId) {
+            const current = lists[list].get(userId);
+            current?.delete(otherId);
+            if (current?.size === 0) lists[list].delete(userId);
+        },
+        async getList(list, userId) {
+            return Array.from(entries(list, userId).keys());
+        },
+        async blockersAmong(userId, candidateIds) {
+            const blockers = new Map<string, Date>();
+            candidateIds.forEach((candidateId) => {
+                const blockedAt = entries('blocks', candidateId).get(userId);
+                if (blockedAt) blockers.set(candidateId, blockedAt);
+            });
+            return blockers;
+        },
+        async getCallPolicy(userId) {
+            return policies.get(userId) ?? CallPolicy.Everyone;
+        },
+        async saveCallPolicy(userId, policy) {
+            policies.set(userId, policy);
+        },
+        async isContactAllowed(senderId, targetId) {
+            if (entries('blocks', targetId).has(senderId)) return false;
+            const policy = policies.get(targetId) ?? CallPolicy.Everyone;
+            return policy === CallPolicy.Everyone || (policy === CallPolicy.Contacts && entries('contacts', targetId).has(senderId));
+        }
+    };
+}
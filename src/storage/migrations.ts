@@ -0,0 +1,190 @@
+import { Pool, PoolClient } from 'pg';
+import { moduleLogger } from '../logger';
+
+const logger = moduleLogger('storage');
+
+// A schema change. Migrations are applied in version order, each in its own transaction, and
+// recorded in schema_migrations. Never edit a migration that has been released; add a new one.
+export interface Migration {
+    version:    number;
+    name:       string;
+    statements: string[];
+}
+
+// Serializes migrations between instances starting at the same time (arbitrary application-wide key)
+const MIGRATION_LOCK_KEY = 73457211;
+
+export const migrations: Migration[] = [
+    {
+        // Everything created by initializeDatabase before migrations were versioned; idempotent so
+        // that existing databases can be adopted as they are
+        version: 1,
+        name: 'baseline',
+        statements: [
+            `CREATE TABLE IF NOT EXISTS user_push_tokens (
+                user_id VARCHAR(255) NOT NULL,
+                device_id VARCHAR(255) NOT NULL,
+                push_token TEXT NOT NULL,
+                platform VARCHAR(16) NOT NULL DEFAULT 'fcm',
+                updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+                PRIMARY KEY (user_id, device_id)
+            )`,
+            // Tokens registered before platforms were tracked all came from the Android (FCM) client
+            `ALTER TABLE user_push_tokens ADD COLUMN IF NOT EXISTS platform VARCHAR(16) NOT NULL DEFAULT 'fcm'`,
+            // Tables from before multi-device support were keyed by user only; keep their token as the 'default' device
+            `DO $$
+            BEGIN
+                IF NOT EXISTS (
+                    SELECT 1 FROM information_schema.columns
+                    WHERE table_name = 'user_push_tokens' AND column_name = 'device_id'
+                ) THEN
+                    ALTER TABLE user_push_tokens ADD COLUMN device_id VARCHAR(255) NOT NULL DEFAULT 'default';
+                    ALTER TABLE user_push_tokens ALTER COLUMN device_id DROP DEFAULT;
+                    ALTER TABLE user_push_tokens DROP CONSTRAINT user_push_tokens_pkey;
+                    ALTER TABLE user_push_tokens ADD PRIMARY KEY (user_id, device_id);
+                END IF;
+            END $$`,
+            `CREATE TABLE IF NOT EXISTS offline_messages (
+                id BIGSERIAL PRIMARY KEY,
+                recipient_id VARCHAR(255) NOT NULL,
+                sender_id VARCHAR(255) NOT NULL,
+                message JSONB NOT NULL,
+                created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+                expires_at TIMESTAMPTZ NOT NULL
+            )`,
+            `CREATE INDEX IF NOT EXISTS offline_messages_recipient_idx ON offline_messages (recipient_id, id)`
+        ]
+    },
+    {
+        version: 2,
+        name: 'call_records',
+        statements: [
+            `CREATE TABLE call_records (
+                call_id VARCHAR(255) PRIMARY KEY,
+                caller_id VARCHAR(255) NOT NULL,
+                callee_id VARCHAR(255) NOT NULL,
+                caller_device VARCHAR(255) NOT NULL,
+                answered_by VARCHAR(255),
+                state VARCHAR(16) NOT NULL,
+                end_reason VARCHAR(32),
+                started_at TIMESTAMPTZ NOT NULL,
+                answered_at TIMESTAMPTZ,
+                ended_at TIMESTAMPTZ
+            )`,
+            `CREATE INDEX call_records_caller_idx ON call_records (caller_id, started_at DESC, call_id DESC)`,
+            `CREATE INDEX call_records_callee_idx ON call_records (callee_id, started_at DESC, call_id DESC)`
+        ]
+    },
+    {
+        version: 3,
+        name: 'user_presence',
+        statements: [
+            `CREATE TABLE user_presence (
+                user_id VARCHAR(255) PRIMARY KEY,
+                status VARCHAR(16) NOT NULL DEFAULT 'online',
+                last_seen_at TIMESTAMPTZ,
+                updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+            )`
+        ]
+    },
+    {
+        version: 4,
+        name: 'privacy',
+        statements: [
+            `CREATE TABLE user_blocks (
+                user_id VARCHAR(255) NOT NULL,
+                blocked_id VARCHAR(255) NOT NULL,
+                created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+                PRIMARY KEY (user_id, blocked_id)
+            )`,
+            `CREATE INDEX user_blocks_blocked_idx ON user_blocks (blocked_id)`,
+            `CREATE TABLE user_contacts (
+                user_id VARCHAR(255) NOT NULL,
+                contact_id VARCHAR(255) NOT NULL,
+                created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+                PRIMARY KEY (user_id, contact_id)
+            )`,
+            `CREATE TABLE user_privacy (
+                user_id VARCHAR(255) PRIMARY KEY,
+                call_policy VARCHAR(16) NOT NULL DEFAULT 'everyone',
+                updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+            )`
+        ]
+    },
+    {
+        // Used by the postgres cluster backend (src/cluster/postgres.ts), which created them itself before;
+        // idempotent so that databases it already ran on are adopted as they are
+        version: 5,
+        name: 'cluster',
+        statements: [
+            `CREATE TABLE IF NOT EXISTS cluster_spilled_messages (
+                id BIGSERIAL PRIMARY KEY,
+                envelope TEXT NOT NULL,
+                created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+            )`,
+            `CREATE TABLE IF NOT EXISTS cluster_instances (
+                instance_id VARCHAR(255) PRIMARY KEY,
+                last_seen TIMESTAMPTZ NOT NULL
+            )`,
+            `CREATE TABLE IF NOT EXISTS cluster_sessions (
+                user_id VARCHAR(255) NOT NULL,
+                device_id VARCHAR(255) NOT NULL,
+                instance_id VARCHAR(255) NOT NULL,
+                connected_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+                PRIMARY KEY (user_id, device_id)
+            )`
+        ]
+    }
+];
+
+/**
+ * Applies every migration the database has not seen yet.
+ * @param client A dedicated connection; migrations hold a session-level advisory lock on it.
+ */
+export async function runMigrations(client: PoolClient): Promise<void> {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+    try {
+        await client.query(`
+            CREATE TABLE IF NOT EXISTS schema_migrations (
+                version INTEGER PRIMARY KEY,
+                name VARCHAR(255) NOT NULL,
+                applied_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+            );
+        `);
+        const result = await client.query<{ version: number }>('SELECT version FROM schema_migrations');
+        const applied = new Set(result.rows.map(row => row.version));
+
+        for (const migration of migrations) {
+            if (applied.has(migration.version)) continue;
+            try {
+                await client.query('BEGIN');
+                for (const statement of migration.statements) {
+                    await client.query(statement);
+                }
+                await client.query('INSERT INTO schema_migrations (version, name) VALUES ($1, $2)', [migration.version, migration.name]);
+                await client.query('COMMIT');
+                logger.log({ level: 'info', message: `Database migration ${migration.version} (${migration.name}) applied.` });
+            } catch (err) {
+                await client.query('ROLLBACK');
+                logger.log({ level: 'error', message: `Database migration ${migration.version} (${migration.name}) failed: ${err}` });
+                throw err;
+            }
+        }
+    } finally {
+        await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]);
+    }
+}
+
+/**
+ * Applies missing migrations on a connection of its own, for users of the database other than the storage
+ * (the cluster backend may run next to the in-memory storage).
+ * @param pool The connection pool.
+ */
+export async function migrateDatabase(pool: Pool): Promise<void> {
+    const client = await pool.connect();
+    try {
+        await runMigrations(client);
+    } finally {
+        client.release();
+    }
+}
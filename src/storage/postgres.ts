@@ -0,0 +1,373 @@
+import { Pool, QueryResult, QueryResultRow } from 'pg';
+import { moduleLogger } from '../logger';
+import { runMigrations } from './migrations';
+import { PushPlatform, SignalingMessage, CallState, CallEndReason, PresenceStatus, CallPolicy } from '../types';
+import {
+    Storage, PushTokenStore, OfflineMessageStore, CallRecordStore, PresenceStore, PrivacyStore, PushTokenRecord,
+    OfflineMessageRecord, CallRecord, PresenceRecord, UserList, PoolStats, StorageHealth
+} from './types';
+
+const logger = moduleLogger('storage');
+
+const HEALTH_CHECK_TIMEOUT_MS = 2000;
+
+/**
+ * Creates a connection pool for a PostgreSQL database.
+ * @param connectionString The database URL; SSL is used when NODE_ENV is production.
+ */
+export function createPgPool(connectionString?: string): Pool {
+    const pool = new Pool({
+        connectionString,
+        ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false // Basic SSL for production
+    });
+    pool.on('error', (err) => {
+        logger.log({ level: 'error', message: `Unexpected error on idle PostgreSQL client ${err}` });
+    });
+    return pool;
+}
+
+/**
+ * Storage in PostgreSQL. The schema is versioned (see migrations.ts) and brought up to date by start().
+ * @param pool The connection pool; ended by close().
+ */
+export function createPgStorage(pool: Pool): Storage {
+    // Runs a statement, logging failures as "Failed <what>" before passing them on
+    async function query<R extends QueryResultRow = QueryResultRow>(what: string, text: string, params: unknown[] = []): Promise<QueryResult<R>> {
+        try {
+            return await pool.query<R>(text, params);
+        } catch (error) {
+            logger.log({ level: 'error', message: `DB Error: Failed ${what}: ${error}` });
+            throw error;
+        }
+    }
+
+    const poolStats = (): PoolStats => ({ totalCount: pool.totalCount, idleCount: pool.idleCount, waitingCount: pool.waitingCount });
+
+    return {
+        name: 'postgres',
+        pushTokens:      createPushTokenStore(query),
+        offlineMessages: createOfflineMessageStore(query),
+        callRecords:     createCallRecordStore(query),
+        presence:        createPresenceStore(query),
+        privacy:         createPrivacyStore(query),
+
+        async start(): Promise<void> {
+            const client = await pool.connect();
+            try {
+                await runMigrations(client);
+                logger.log({ level: 'info', message: 'Database schema checked/migrated.' });
+            } catch (err) {
+                logger.log({ level: 'error', message: `Error initializing database: ${err}` });
+                throw err; // Re-throw to prevent server start on critical DB error
+            } finally {
+                client.release(); // Release the client back to the pool
+            }
+        },
+
+        // The database must answer a trivial query within HEALTH_CHECK_TIMEOUT_MS
+        async checkHealth(): Promise<StorageHealth> {
+            let timer: NodeJS.Timeout | undefined;
+            const timeout = new Promise<never>((_, reject) => {
+                timer = setTimeout(() => reject(new Error(`No answer within ${HEALTH_CHECK_TIMEOUT_MS} ms`)), HEALTH_CHECK_TIMEOUT_MS);
+            });
+            try {
+                await Promise.race([pool.query('SELECT 1'), timeout]);
+                return { ok: true, backend: 'postgres', ...poolStats() };
+            } catch (error) {
+                return { ok: false, backend: 'postgres', ...poolStats(), error: String(error) };
+            } finally {
+                clearTimeout(timer);
+            }
+        },
+
+        poolStats,
+
+        async close(): Promise<void> {
+            logger.log({ level: 'info', message: 'Closing PostgreSQL connection pool...' });
+            try {
+                await pool.end();
+                logger.log({ level: 'info', message: 'PostgreSQL pool has been closed.' });
+            } catch (error) {
+                logger.log({ level: 'error', message: `Error closing PostgreSQL pool: ${error}` });
+            }
+        }
+    };
+}
+
+type Query = <R extends QueryResultRow = QueryResultRow>(what: string, text: string, params?: unknown[]) => Promise<QueryResult<R>>;
+
+function createPushTokenStore(query: Query): PushTokenStore {
+    return {
+        async save(userId, deviceId, pushToken, platform) {
+            await query(`saving push token for user ${userId} (device ${deviceId})`, `
+                INSERT INTO user_push_tokens (user_id, device_id, push_token, platform, updated_at)
+                VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP)
+                ON CONFLICT (user_id, device_id)
+                DO UPDATE SET push_token = EXCLUDED.push_token, platform = EXCLUDED.platform, updated_at = CURRENT_TIMESTAMP;
+            `, [userId, deviceId, pushToken, platform]);
+            logger.log({ level: 'info', message: `DB: Push token saved/updated for user: ${userId} (device ${deviceId})` });
+        },
+
+        async list(userId): Promise<PushTokenRecord[]> {
+            const result = await query<{ device_id: string, push_token: string, platform: PushPlatform }>(
+                `retrieving push tokens for user ${userId}`,
+                'SELECT device_id, push_token, platform FROM user_push_tokens WHERE user_id = $1 ORDER BY updated_at DESC',
+                [userId]
+            );
+            logger.log({ level: 'info', message: `DB: Found ${result.rows.length} push token(s) for user ${userId}` });
+            return result.rows.map(row => ({ deviceId: row.device_id, pushToken: row.push_token, platform: row.platform }));
+        },
+
+        async delete(userId, pushToken) {
+            await query(`deleting push token for user ${userId}`, 'DELETE FROM user_push_tokens WHERE user_id = $1 AND push_token = $2', [userId, pushToken]);
+            logger.log({ level: 'info', message: `DB: Push token deleted for user ${userId}` });
+        }
+    };
+}
+
+interface OfflineMessageRow {
+    id: string, sender_id: string, message: SignalingMessage
+}
+
+function toOfflineMessage(row: OfflineMessageRow): OfflineMessageRecord {
+    return { id: row.id, senderId: row.sender_id, message: row.message };
+}
+
+function createOfflineMessageStore(query: Query): OfflineMessageStore {
+    return {
+        async queue(recipientId, senderId, message, ttlSec, maxPerRecipient) {
+            // The count check and insert happen in one statement so concurrent senders cannot overfill the mailbox
+            const result = await query<{ id: string }>(`queueing offline message for ${recipientId}`, `
+                INSERT INTO offline_messages (recipient_id, sender_id, message, expires_at)
+                SELECT $1::varchar, $2::varchar, $3::jsonb, CURRENT_TIMESTAMP + make_interval(secs => $4::double precision)
+                WHERE (SELECT COUNT(*) FROM offline_messages WHERE recipient_id = $1::varchar AND expires_at > CURRENT_TIMESTAMP) < $5::bigint
+                RETURNING id;
+            `, [recipientId, senderId, JSON.stringify(message), ttlSec, maxPerRecipient]);
+            if (result.rows.length === 0) {
+                logger.log({ level: 'warn', message: `DB: Mailbox of ${recipientId} is full, message from ${senderId} not queued` });
+                return null;
+            }
+            logger.log({ level: 'info', message: `DB: Queued offline message ${result.rows[0].id} from ${senderId} for ${recipientId}` });
+            return result.rows[0].id;
+        },
+
+        async list(recipientId) {
+            const result = await query<OfflineMessageRow>(
+                `retrieving offline messages for ${recipientId}`,
+                'SELECT id, sender_id, message FROM offline_messages WHERE recipient_id = $1 AND expires_at > CURRENT_TIMESTAMP ORDER BY id',
+                [recipientId]
+            );
+            return result.rows.map(toOfflineMessage);
+        },
+
+        async delete(recipientId, messageId) {
+            const result = await query<OfflineMessageRow>(
+                `deleting offline message ${messageId}`,
+                'DELETE FROM offline_messages WHERE id = $1 AND recipient_id = $2 RETURNING id, sender_id, message',
+                [messageId, recipientId]
+            );
+            return result.rows.length > 0 ? toOfflineMessage(result.rows[0]) : null;
+        },
+
+        async deleteFrom(recipientId, senderId) {
+            const result = await query(
+                `deleting messages from ${senderId} for ${recipientId}`,
+                'DELETE FROM offline_messages WHERE recipient_id = $1 AND sender_id = $2',
+                [recipientId, senderId]
+            );
+            return result.rowCount ?? 0;
+        },
+
+        async purgeExpired() {
+            const result = await query('purging expired offline messages', 'DELETE FROM offline_messages WHERE expires_at <= CURRENT_TIMESTAMP');
+            const purged = result.rowCount ?? 0;
+            if (purged > 0) logger.log({ level: 'info', message: `DB: Purged ${purged} expired offline message(s)` });
+            return purged;
+        },
+
+        async reserveId() {
+            const result = await query<{ id: string }>(
+                'reserving an offline message ID',
+                `SELECT nextval(pg_get_serial_sequence('offline_messages', 'id'))::text AS id`
+            );
+            return result.rows[0].id;
+        }
+    };
+}
+
+interface CallRecordRow {
+    call_id: string, caller_id: string, callee_id: string, caller_device: string, answered_by: string | null,
+    state: CallState, end_reason: CallEndReason | null, started_at: Date, answered_at: Date | null, ended_at: Date | null
+}
+
+function toCallRecord(row: CallRecordRow): CallRecord {
+    return {
+        callId:       row.call_id,
+        callerId:     row.caller_id,
+        calleeId:     row.callee_id,
+        callerDevice: row.caller_device,
+        answeredBy:   row.answered_by ?? undefined,
+        state:        row.state,
+        endReason:    row.end_reason ?? undefined,
+        startedAt:    row.started_at,
+        answeredAt:   row.answered_at ?? undefined,
+        endedAt:      row.ended_at ?? undefined
+    };
+}
+
+function createCallRecordStore(query: Query): CallRecordStore {
+    return {
+        async save(record) {
+            await query(`saving call record ${record.callId}`, `
+                INSERT INTO call_records (call_id, caller_id, callee_id, caller_device, answered_by, state, end_reason, started_at, answered_at, ended_at)
+                VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+                ON CONFLICT (call_id)
+                DO UPDATE SET answered_by = EXCLUDED.answered_by, state = EXCLUDED.state, end_reason = EXCLUDED.end_reason,
+                              answered_at = EXCLUDED.answered_at, ended_at = EXCLUDED.ended_at;
+            `, [
+                record.callId, record.callerId, record.calleeId, record.callerDevice, record.answeredBy ?? null,
+                record.state, record.endReason ?? null, record.startedAt, record.answeredAt ?? null, record.endedAt ?? null
+            ]);
+        },
+
+        async history(userId, limit, before, missedOnly = false) {
+            const conditions = missedOnly
+                ? [`callee_id = $1`, `state IN ('${CallState.Missed}', '${CallState.Cancelled}')`]
+                : [`(caller_id = $1 OR callee_id = $1)`];
+            const params: unknown[] = [userId, limit];
+            if (before) {
+                conditions.push(`(started_at, call_id) < ($3, $4)`);
+                params.push(before.startedAt, before.callId);
+            }
+            const result = await query<CallRecordRow>(`retrieving call history for ${userId}`, `
+                SELECT * FROM call_records
+                WHERE ${conditions.join(' AND ')}
+                ORDER BY started_at DESC, call_id DESC
+                LIMIT $2;
+            `, params);
+            return result.rows.map(toCallRecord);
+        },
+
+        async purgeOlderThan(retentionDays) {
+            const result = await query(
+                'purging old call records',
+                'DELETE FROM call_records WHERE started_at < CURRENT_TIMESTAMP - make_interval(days => $1::int)',
+                [retentionDays]
+            );
+            const purged = result.rowCount ?? 0;
+            if (purged > 0) logger.log({ level: 'info', message: `DB: Purged ${purged} call record(s) older than ${retentionDays} days` });
+            return purged;
+        }
+    };
+}
+
+function createPresenceStore(query: Query): PresenceStore {
+    return {
+        async get(userIds) {
+            const result = await query<{ user_id: string, status: PresenceStatus, last_seen_at: Date | null }>(
+                `retrieving presence of ${userIds.length} user(s)`,
+                'SELECT user_id, status, last_seen_at FROM user_presence WHERE user_id = ANY($1::varchar[])',
+                [userIds]
+            );
+            return new Map(result.rows.map((row): [string, PresenceRecord] => [row.user_id, { status: row.status, lastSeenAt: row.last_seen_at ?? undefined }]));
+        },
+
+        async saveStatus(userId, status) {
+            await query(`saving presence status for ${userId}`, `
+                INSERT INTO user_presence (user_id, status, updated_at)
+                VALUES ($1, $2, CURRENT_TIMESTAMP)
+                ON CONFLICT (user_id)
+                DO UPDATE SET status = EXCLUDED.status, updated_at = CURRENT_TIMESTAMP;
+            `, [userId, status]);
+        },
+
+        async saveLastSeen(userId, lastSeenAt) {
+            await query(`saving last seen time for ${userId}`, `
+                INSERT INTO user_presence (user_id, last_seen_at, updated_at)
+                VALUES ($1, $2, CURRENT_TIMESTAMP)
+                ON CONFLICT (user_id)
+                DO UPDATE SET last_seen_at = EXCLUDED.last_seen_at, updated_at = CURRENT_TIMESTAMP;
+            `, [userId, lastSeenAt]);
+        }
+    };
+}
+
+// user_blocks (blocked_id) and user_contacts (contact_id)
+const USER_LISTS: Record<UserList, { table: string; column: string }> = {
+    blocks:   { table: 'user_blocks', column: 'blocked_id' },
+    contacts: { table: 'user_contacts', column: 'contact_id' }
+};
+
+function createPrivacyStore(query: Query): PrivacyStore {
+    return {
+        async addListEntry(list, userId, otherId, maxEntries) {
+            const { table, column } = USER_LISTS[list];
+            const what = `adding ${otherId} to ${list} of ${userId}`;
+            // As for the mailbox, the count check and insert happen in one statement
+            const result = await query(what, `
+                INSERT INTO ${table} (user_id, ${column})
+                SELECT $1::varchar, $2::varchar
+                WHERE (SELECT COUNT(*) FROM ${table} WHERE user_id = $1::varchar) < $3::bigint
+                ON CONFLICT DO NOTHING;
+            `, [userId, otherId, maxEntries]);
+            if ((result.rowCount ?? 0) > 0) return true;
+            const existing = await query(what, `SELECT 1 FROM ${table} WHERE user_id = $1 AND ${column} = $2`, [userId, otherId]);
+            return existing.rows.length > 0;
+        },
+
+        async removeListEntry(list, userId, otherId) {
+            const { table, column } = USER_LISTS[list];
+            await query(`removing ${otherId} from ${list} of ${userId}`, `DELETE FROM ${table} WHERE user_id = $1 AND ${column} = $2`, [userId, otherId]);
+        },
+
+        async getList(list, userId) {
+            const { table, column } = USER_LISTS[list];
+            const result = await query<{ other_id: string }>(
+                `retrieving ${list} of ${userId}`,
+                `SELECT ${column} AS other_id FROM ${table} WHERE user_id = $1 ORDER BY created_at, ${column}`,
+                [userId]
+            );
+            return result.rows.map(row => row.other_id);
+        },
+
+        async blockersAmong(userId, candidateIds) {
+            const result = await query<{ user_id: string, created_at: Date }>(
+                `checking blocks of ${userId}`,
+                'SELECT user_id, created_at FROM user_blocks WHERE blocked_id = $1 AND user_id = ANY($2::varchar[])',
+                [userId, candidateIds]
+            );
+            return new Map(result.rows.map(row => [row.user_id, row.created_at]));
+        },
+
+        async getCallPolicy(userId) {
+            const result = await query<{ call_policy: CallPolicy }>(
+                `retrieving call policy of ${userId}`,
+                'SELECT call_policy FROM user_privacy WHERE user_id = $1',
+                [userId]
+            );
+            return result.rows[0]?.call_policy ?? CallPolicy.Everyone;
+        },
+
+        async saveCallPolicy(userId, policy) {
+            await query(`saving call policy of ${userId}`, `
+                INSERT INTO user_privacy (user_id, call_policy, updated_at)
+                VALUES ($1, $2, CURRENT_TIMESTAMP)
+                ON CONFLICT (user_id)
+                DO UPDATE SET call_policy = EXCLUDED.call_policy, updated_at = CURRENT_TIMESTAMP;
+            `, [userId, policy]);
+        },
+
+        async isContactAllowed(senderId, targetId) {
+            const result = await query<{ blocked: boolean, is_contact: boolean, call_policy: CallPolicy }>(
+                `checking whether ${senderId} may contact ${targetId}`, `
+                SELECT
+                    EXISTS (SELECT 1 FROM user_blocks WHERE user_id = $2 AND blocked_id = $1) AS blocked,
+                    EXISTS (SELECT 1 FROM user_contacts WHERE user_id = $2 AND contact_id = $1) AS is_contact,
+                    COALESCE((SELECT call_policy FROM user_privacy WHERE user_id = $2), '${CallPolicy.Everyone}') AS call_policy;
+            `, [senderId, targetId]);
+            const { blocked, is_contact: isContact, call_policy: policy } = result.rows[0];
+            if (blocked) return false;
+            return policy === CallPolicy.Everyone || (policy === CallPolicy.Contacts && isContact);
+        }
+    };
+}
@@ -0,0 +1,120 @@
+import { PushPlatform, SignalingMessage, CallState, CallEndReason, PresenceStatus, CallPolicy } from '../types';
+
+export interface PushTokenRecord {
+    deviceId:  string;
+    pushToken: string;
+    platform:  PushPlatform;
+}
+
+export interface OfflineMessageRecord {
+    id:       string;
+    senderId: string;
+    message:  SignalingMessage;
+}
+
+export interface CallRecord {
+    callId:       string;
+    callerId:     string;
+    calleeId:     string;
+    callerDevice: string;
+    answeredBy?:  string;
+    state:        CallState;
+    endReason?:   CallEndReason;
+    startedAt:    Date;
+    answeredAt?:  Date;
+    endedAt?:     Date;
+}
+
+// Position in a user's call history, newest first
+export interface CallHistoryCursor {
+    startedAt: Date;
+    callId:    string;
+}
+
+export interface PresenceRecord {
+    status:      PresenceStatus; // Chosen by the user; online unless set otherwise
+    lastSeenAt?: Date;           // When the user's last device disconnected
+}
+
+// Per-user lists of other users
+export type UserList = 'blocks' | 'contacts';
+
+// Connections of a database pool, for /readyz and /metrics
+export interface PoolStats {
+    totalCount:   number; // Connections open in the pool
+    idleCount:    number;
+    waitingCount: number; // Queries waiting for a free connection
+}
+
+export interface StorageHealth extends Partial<PoolStats> {
+    ok:      boolean;
+    backend: string;
+    error?:  string;
+}
+
+// Device push tokens, one per device of a user
+export interface PushTokenStore {
+    save(userId: string, deviceId: string, pushToken: string, platform: PushPlatform): Promise<void>;
+    // Most recently registered first
+    list(userId: string): Promise<PushTokenRecord[]>;
+    // Only deletes the token if the device still holds it, so a freshly re-registered token survives
+    delete(userId: string, pushToken: string): Promise<void>;
+}
+
+// Messages kept for users who are offline
+export interface OfflineMessageStore {
+    // Returns the new message ID, or null if the recipient already has maxPerRecipient unexpired messages
+    queue(recipientId: string, senderId: string, message: SignalingMessage, ttlSec: number, maxPerRecipient: number): Promise<string | null>;
+    // Unexpired messages for the recipient, oldest first
+    list(recipientId: string): Promise<OfflineMessageRecord[]>;
+    // Returns the removed message, or null if the recipient has no such message
+    delete(recipientId: string, messageId: string): Promise<OfflineMessageRecord | null>;
+    deleteFrom(recipientId: string, senderId: string): Promise<number>;
+    purgeExpired(): Promise<number>;
+    // An unused message ID, for a receipt of a message that is not actually stored
+    reserveId(): Promise<string>;
+}
+
+export interface CallRecordStore {
+    // Inserts the call, or updates it to its latest state
+    save(record: CallRecord): Promise<void>;
+    // Calls made and received, newest first; missedOnly: received calls that were never answered (missed or cancelled)
+    history(userId: string, limit: number, before?: CallHistoryCursor, missedOnly?: boolean): Promise<CallRecord[]>;
+    purgeOlderThan(retentionDays: number): Promise<number>;
+}
+
+export interface PresenceStore {
+    // Users without a record are left out
+    get(userIds: string[]): Promise<Map<string, PresenceRecord>>;
+    saveStatus(userId: string, status: PresenceStatus): Promise<void>;
+    saveLastSeen(userId: string, lastSeenAt: Date): Promise<void>;
+}
+
+export interface PrivacyStore {
+    // False if the list already has maxEntries entries (adding an entry that is already there succeeds)
+    addListEntry(list: UserList, userId: string, otherId: string, maxEntries: number): Promise<boolean>;
+    removeListEntry(list: UserList, userId: string, otherId: string): Promise<void>;
+    // In the order the entries were added
+    getList(list: UserList, userId: string): Promise<string[]>;
+    // Which of the candidates have blocked the user, and when
+    blockersAmong(userId: string, candidateIds: string[]): Promise<Map<string, Date>>;
+    getCallPolicy(userId: string): Promise<CallPolicy>;
+    saveCallPolicy(userId: string, policy: CallPolicy): Promise<void>;
+    // Not blocked by the target, and allowed by the target's call policy
+    isContactAllowed(senderId: string, targetId: string): Promise<boolean>;
+}
+
+// Everything the server persists. Stores may throw on backend errors; they log them first.
+export interface Storage {
+    readonly name: string;
+    readonly pushTokens:      PushTokenStore;
+    readonly offlineMessages: OfflineMessageStore;
+    readonly callRecords:     CallRecordStore;
+    readonly presence:        PresenceStore;
+    readonly privacy:         PrivacyStore;
+    // Prepares the backend, e.g. brings the database schema up to date
+    start(): Promise<void>;
+    checkHealth(): Promise<StorageHealth>;
+    poolStats?(): PoolStats;
+    close(): Promise<void>;
+}
@@ -0,0 +1,154 @@
+import WebSocket from 'ws';
+import { z } from 'zod';
+import { SignalingMessage, MessageType, ErrorCode, ErrorPayload, RateLimitedPayload, LoginSuccessPayload, WelcomePayload } from './types';
+import { inboundMessageSchema } from './schemas';
+import { PROTOCOL_VERSIONS, ACK_PROTOCOL_VERSION } from './protocol';
+
+// A message as a client writes it (before schema defaults are applied)
+export type ClientMessage = z.input<typeof inboundMessageSchema>;
+
+const DEFAULT_TIMEOUT_MS = 2000;
+
+export interface TestClientOptions {
+    token?:     string;  // Presented on the upgrade as a bearer token; otherwise pass one to login()
+    timeoutMs?: number;  // How long to wait for an expected message (default 2000)
+    autoPong?:  boolean; // Answer the server's heartbeat pings (default true); false simulates a dead connection
+}
+
+// Raised when the server answers a request with an error or rate_limited, or an expected message does not arrive
+export class TestClientError extends Error {
+    constructor(public readonly code: ErrorCode | MessageType.RateLimited | 'timeout' | 'closed', message: string, public readonly reply?: SignalingMessage) {
+        super(message);
+        this.name = 'TestClientError';
+    }
+}
+
+export interface TestClient {
+    readonly ws:       WebSocket;
+    readonly received: SignalingMessage[];                        // Everything received so far, in order
+    readonly closed:   Promise<{ code: number; reason: string }>; // Settles when the connection closes
+    // Sends a message as is; anything, so that invalid messages can be sent too
+    send(message: ClientMessage | Record<string, unknown>): void;
+    // Takes the oldest received message not taken yet (of the type, if given), waiting for one if needed
+    next(type?: MessageType, timeoutMs?: number): Promise<SignalingMessage>;
+    // Negotiates protocol 2 (or the given versions); required before request()
+    hello(versions?: number[], features?: string[]): Promise<WelcomePayload>;
+    // Sends a message with a fresh id and resolves with its ack, or rejects with the error (or rate_limited) replying to it
+    request(message: ClientMessage): Promise<SignalingMessage>;
+    login(token?: string, deviceId?: string): Promise<LoginSuccessPayload>;
+    close(code?: number, reason?: string): Promise<{ code: number; reason: string }>;
+}
+
+/**
+ * Connects a scripted client to a signaling server, for integration tests and manual checks.
+ * @param url The server's WebSocket URL, e.g. ws://localhost:8080.
+ * @param options Token, timeouts and heartbeat behaviour.
+ */
+export async function connectTestClient(url: string, options: TestClientOptions = {}): Promise<TestClient> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const ws = new WebSocket(url, {
+        headers:  options.token ? { Authorization: `Bearer ${options.token}` } : undefined,
+        autoPong: options.autoPong ?? true
+    });
+
+    const received: SignalingMessage[] = [];
+    const unclaimed: SignalingMessage[] = [];
+    const waiters: Array<{ matches: (message: SignalingMessage) => boolean; resolve: (message: SignalingMessage) => void }> = [];
+    let nextId = 1;
+    let version = 1; // Protocol version, once hello() negotiated one
+
+    ws.on('message', (data) => {
+        const message: SignalingMessage = JSON.parse(data.toString());
+        received.push(message);
+        const waiter = waiters.findIndex(candidate => candidate.matches(message));
+        if (waiter >= 0) waiters.splice(waiter, 1)[0].resolve(message);
+        else unclaimed.push(message);
+    });
+    const closed = new Promise<{ code: number; reason: string }>((resolve) => {
+        ws.on('close', (code, reason) => resolve({ code, reason: reason.toString() }));
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        ws.once('open', resolve);
+        ws.once('error', reject);
+        ws.once('unexpected-response', (_, res) => reject(new Error(`Upgrade rejected with HTTP ${res.statusCode}`)));
+    });
+
+    // Takes the first unclaimed message matching, or waits for one
+    function take(matches: (message: SignalingMessage) => boolean, description: string, waitMs = timeoutMs): Promise<SignalingMessage> {
+        const index = unclaimed.findIndex(matches);
+        if (index >= 0) return Promise.resolve(unclaimed.splice(index, 1)[0]);
+        return new Promise((resolve, reject) => {
+            const waiter = {
+                matches,
+                resolve: (message: SignalingMessage) => {
+                    clearTimeout(timer);
+                    resolve(message);
+                }
+            };
+            const timer = setTimeout(() => {
+                waiters.splice(waiters.indexOf(waiter), 1);
+                reject(new TestClientError('timeout', `No ${description} within ${waitMs} ms`));
+            }, waitMs);
+            waiters.push(waiter);
+        });
+    }
+
+    function send(message: ClientMessage | Record<string, unknown>): void {
+        ws.send(JSON.stringify(message));
+    }
+
+    function next(type?: MessageType, waitMs?: number): Promise<SignalingMessage> {
+        return take(message => type === undefined || message.type === type, type ?? 'message', waitMs);
+    }
+
+    // Gives the message an id once the protocol requires one
+    function numbered(message: ClientMessage): ClientMessage & { id?: string } {
+        return version >= ACK_PROTOCOL_VERSION ? { ...message, id: `t${nextId++}` } : message;
+    }
+
+    // Resolves with the first matching message, or rejects if it is an error or rate_limited
+    async function reply(matches: (message: SignalingMessage) => boolean, description: string): Promise<SignalingMessage> {
+        const message = await take(matches, description);
+        if (message.type === MessageType.RateLimited) {
+            const limited = message.payload as RateLimitedPayload;
+            throw new TestClientError(MessageType.RateLimited, `Rate limited; retry after ${limited.retryAfterMs} ms`, message);
+        }
+        if (message.type !== MessageType.Error) return message;
+        const error = message.payload as ErrorPayload;
+        throw new TestClientError(error.code, error.message, message);
+    }
+
+    return {
+        ws,
+        received,
+        closed,
+        send,
+        next,
+
+        async hello(versions = [Math.max(...PROTOCOL_VERSIONS)], features) {
+            send({ type: MessageType.Hello, payload: { versions, features } });
+            const welcome = (await reply(m => m.type === MessageType.Welcome || m.originalType === MessageType.Hello, 'welcome')).payload as WelcomePayload;
+            version = welcome.version;
+            return welcome;
+        },
+
+        request(message) {
+            if (version < ACK_PROTOCOL_VERSION) throw new Error('request() needs protocol 2; call hello() first');
+            const numberedMessage = numbered(message);
+            send(numberedMessage);
+            return reply(m => m.replyTo === numberedMessage.id && (m.type === MessageType.Ack || m.type === MessageType.Error || m.type === MessageType.RateLimited), `ack of ${message.type} ${numberedMessage.id}`);
+        },
+
+        async login(token, deviceId) {
+            send(numbered({ type: MessageType.Login, payload: { token, deviceId } }));
+            const answer = await reply(m => m.type === MessageType.LoginSuccess || m.originalType === MessageType.Login, 'login_success');
+            return answer.payload as LoginSuccessPayload;
+        },
+
+        close(code = 1000, reason = '') {
+            if (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING) ws.close(code, reason);
+            return closed;
+        }
+    };
+}
@@ -1,10 +1,36 @@
 import WebSocket from 'ws';
+import type { z } from 'zod';
+import type {
+    inboundMessageSchema, loginPayloadSchema, registerPushPayloadSchema, offerPayloadSchema, answerPayloadSchema,
+    candidatePayloadSchema, messageRequestPayloadSchema, messageAckPayloadSchema, joinRoomPayloadSchema, leaveRoomPayloadSchema,
+    callControlPayloadSchema, getCallHistoryPayloadSchema, presenceUsersPayloadSchema, setPresencePayloadSchema, resumePayloadSchema,
+    userListPayloadSchema, setCallPolicyPayloadSchema, helloPayloadSchema
+} from './schemas';
 
 // Extend WebSocket type to include our custom properties
 export interface WebSocketClient extends WebSocket {
     clientId?:  string;  // Temporary ID before login
+    connectionId?: string; // Identifies the connection in logs; unlike clientId, kept after login
     userId?:    string;  // User ID after successful login
+    deviceId?:  string;  // Device ID after successful login; a user may have several devices connected
     isAlive?:   boolean; // For heartbeat/ping mechanism
+    authExpiresAt?: number; // Epoch ms at which the login token expires
+    loggingIn?:     boolean; // Set while a login on this socket is being handled
+    upgradeAuth?:   AuthClaims; // Claims verified during the HTTP upgrade
+    remoteAddress?: string;     // Client address (through trusted proxies), used for rate limiting
+    connectedAt?:   number;     // Epoch ms at which the socket was accepted
+    resumeBuffer?:  SignalingMessage[]; // Set while the socket is gone and its session is held for a resume (see resume.ts)
+    protocolVersion?: number;   // Negotiated with hello; protocol 1 if the client never sent one (see protocol.ts)
+    features?:        string[]; // Features agreed in the same handshake
+}
+
+// Connected clients: userId -> (deviceId -> connection)
+export type ClientMap = Map<string, Map<string, WebSocketClient>>;
+
+// Claims derived from a verified login token
+export interface AuthClaims {
+    userId:     string;
+    expiresAt:  number; // Epoch milliseconds, taken from the `exp` claim, which every token must carry
 }
 
 // Define the structure for messages exchanged via WebSocket
@@ -13,38 +39,290 @@ export interface SignalingMessage {
     payload:        any;
     target?:        string;
     sender?:        string;
+    room?:          string; // Relay between members of this room instead of one-to-one
+    targetDevice?:  string; // Optional: restrict delivery to one of the target's devices
+    senderDevice?:  string; // Attached by the server to relayed messages
+    messageId?:     string; // Set on messages delivered from the offline mailbox; acknowledge with message_ack
+    callId?:        string; // The call a one-to-one offer/answer/candidate or call control message belongs to
     originalType?:  MessageType; // Optional field to include original message type in error responses
+    id?:            string; // Client-chosen message ID, required from protocol 2 on
+    replyTo?:       string; // On acks, errors and other responses under protocol 2: the id of the client message answered
+}
+
+// A validated client message; see schemas.ts
+export type InboundMessage = z.infer<typeof inboundMessageSchema>;
+
+// Client payload types are derived from the schemas they are validated with
+export type LoginPayload          = z.infer<typeof loginPayloadSchema>;
+export type RegisterPushPayload   = z.infer<typeof registerPushPayloadSchema>;
+export type OfferPayload          = z.infer<typeof offerPayloadSchema>;
+export type AnswerPayload         = z.infer<typeof answerPayloadSchema>;
+export type CandidatePayload      = z.infer<typeof candidatePayloadSchema>;
+export type MessageRequestPayload = z.infer<typeof messageRequestPayloadSchema>;
+export type MessageAckPayload     = z.infer<typeof messageAckPayloadSchema>;
+export type JoinRoomPayload       = z.infer<typeof joinRoomPayloadSchema>;
+export type LeaveRoomPayload      = z.infer<typeof leaveRoomPayloadSchema>;
+export type CallControlPayload    = z.infer<typeof callControlPayloadSchema>; // reject, cancel, hangup, busy
+export type GetCallHistoryPayload = z.infer<typeof getCallHistoryPayloadSchema>;
+export type PresenceUsersPayload  = z.infer<typeof presenceUsersPayloadSchema>; // subscribe_presence, unsubscribe_presence, get_presence
+export type SetPresencePayload    = z.infer<typeof setPresencePayloadSchema>;
+export type ResumePayload         = z.infer<typeof resumePayloadSchema>;
+export type UserListPayload       = z.infer<typeof userListPayloadSchema>; // block_user, unblock_user, add_contact, remove_contact
+export type SetCallPolicyPayload  = z.infer<typeof setCallPolicyPayloadSchema>;
+export type HelloPayload          = z.infer<typeof helloPayloadSchema>;
+
+// Server payload types
+
+export interface LoginSuccessPayload {
+    userId:       string;
+    deviceId:     string;
+    iceServers?:  IceServersPayload; // So the client can start gathering candidates right away
+    resumeToken?: string;            // Send with resume on a new socket if this one drops
+}
+
+export interface WelcomePayload {
+    version:  number;   // Protocol version used from now on
+    features: string[]; // Features both sides support
+}
+
+export interface ServerDrainingPayload {
+    reconnectAfterMs: number; // Suggested wait before connecting again (and so to another instance), spread across clients
+    deadline:         number; // Epoch ms by which this connection will be closed
+}
+
+export interface ResumedPayload {
+    userId:      string;
+    deviceId:    string;
+    resumeToken: string; // Replaces the one used; tokens work once
+    replayed:    number; // Messages buffered while disconnected, sent right after this one in order
 }
 
-// Define specific payload types (examples)
-export interface LoginPayload {
-    userId: string;
+// Same shape as RTCIceServer
+export interface IceServer {
+    urls:        string[];
+    username?:   string;
+    credential?: string;
 }
 
-export interface RegisterPushPayload {
-    // userId should be implicitly known from the connection (ws.userId)
-    pushToken: string;
+export interface IceServersPayload {
+    iceServers: IceServer[];
+    ttlSec:     number; // Request new ones before the TURN credentials expire
+}
+
+export interface PushResultPayload {
+    target:  string;
+    callId:  string;
+    status:  PushDeliveryStatus; // Delivered if at least one device was reached
+    devices: Array<{ deviceId: string; status: PushDeliveryStatus }>;
+}
+
+// Payload of the queued and delivered receipts sent for offline messages
+export interface ReceiptPayload {
+    messageId: string;
+    target:    string; // The recipient of the original message
+}
+
+// A device taking part in a room
+export interface RoomPeer {
+    userId:   string;
+    deviceId: string;
+}
+
+export interface RoomJoinedPayload {
+    roomId: string;
+    peers:  RoomPeer[]; // Members already in the room
+}
+
+// Payload of peer_joined and peer_left
+export interface RoomPeerEventPayload {
+    roomId: string;
+    peer:   RoomPeer;
+}
+
+export interface CallAnsweredElsewherePayload {
+    callId:   string; // The call that another of this user's devices answered
+    callerId: string;
+    deviceId: string; // The device that answered it
+}
+
+// Sent to the caller once a new call rings on at least one device (or was pushed)
+export interface CallRingingPayload {
+    callId: string;
+    target: string;
+}
+
+// Sent when the server ends a call: it timed out or a participant disconnected
+export interface CallEndedPayload {
+    callId: string;
+    state:  CallState;
+    reason: CallEndReason;
+}
+
+// Why a call finished: the control message that ended it, or what the server noticed
+export type CallEndReason = 'reject' | 'busy' | 'cancel' | 'hangup' | 'timeout' | 'peer_disconnected' | 'unreachable';
+
+// A call as seen by the user asking for their history
+export interface CallHistoryEntry {
+    callId:      string;
+    direction:   'incoming' | 'outgoing';
+    peerId:      string;
+    state:       CallState;
+    endReason?:  CallEndReason;
+    startedAt:   string; // ISO 8601
+    answeredAt?: string;
+    endedAt?:    string;
+}
+
+export interface CallHistoryPayload {
+    calls:       CallHistoryEntry[]; // Newest first
+    nextCursor?: string;             // Pass as `before` to get the next (older) page; absent on the last page
+}
+
+// What other users see of a user
+export interface PresenceInfo {
+    userId:    string;
+    status:    PresenceStatus;
+    lastSeen?: string; // ISO 8601; when an offline user was last connected, if ever
+}
+
+// Payload of presence: answers to subscribe_presence and get_presence, and updates for subscribed users
+export interface PresencePayload {
+    users: PresenceInfo[];
+}
+
+// Payload of privacy: the user's settings, sent for get_privacy and after every change
+export interface PrivacyPayload {
+    callPolicy: CallPolicy;
+    blocked:    string[];
+    contacts:   string[];
 }
 
 export interface ErrorPayload {
-    message: string;
+    code:     ErrorCode;
+    message:  string; // Human-readable, for logs only; clients should act on `code`
+    details?: Array<{ path: string; issue: string }>; // Validation problems, for invalid_message
 }
 
-export interface RelayPayload {
-    [key: string]: any; // Payload for offer, answer, candidate
+// Sent instead of processing a message over a rate limit
+export interface RateLimitedPayload {
+    retryAfterMs: number;  // When the client may try again
+    banned:       boolean; // The client address is banned; the connection is closed right after
 }
 
 // Define allowed message types
 export enum MessageType {
-    Login          = 'login',
-    LoginSuccess   = 'login_success',
-    RegisterPush   = 'register_push',
-    PushRegistered = 'push_registered',
-    Offer          = 'offer',
-    Answer         = 'answer',
-    Candidate      = 'candidate',
-    MessageRequest = 'message_request', // Example custom message
-    UserLeft       = 'user_left',
-    Error          = 'error',
-    Info           = 'info'
+    Login                 = 'login',
+    LoginSuccess          = 'login_success',
+    RegisterPush          = 'register_push',
+    PushRegistered        = 'push_registered',
+    Offer                 = 'offer',
+    Answer                = 'answer',
+    Candidate             = 'candidate',
+    MessageRequest        = 'message_request', // Example custom message
+    PushResult            = 'push_result',
+    CallAnsweredElsewhere = 'call_answered_elsewhere',
+    JoinRoom              = 'join_room',
+    LeaveRoom             = 'leave_room',
+    RoomJoined            = 'room_joined',
+    PeerJoined            = 'peer_joined',
+    PeerLeft              = 'peer_left',
+    Queued                = 'queued',
+    Delivered             = 'delivered',
+    MessageAck            = 'message_ack',
+    Reject                = 'reject',
+    Cancel                = 'cancel',
+    Hangup                = 'hangup',
+    Busy                  = 'busy',
+    CallRinging           = 'call_ringing',
+    CallEnded             = 'call_ended',
+    GetCallHistory        = 'get_call_history',
+    CallHistory           = 'call_history',
+    GetIceServers         = 'get_ice_servers',
+    IceServers            = 'ice_servers',
+    SubscribePresence     = 'subscribe_presence',
+    UnsubscribePresence   = 'unsubscribe_presence',
+    GetPresence           = 'get_presence',
+    SetPresence           = 'set_presence',
+    Presence              = 'presence',
+    Resume                = 'resume',
+    Resumed               = 'resumed',
+    BlockUser             = 'block_user',
+    UnblockUser           = 'unblock_user',
+    AddContact            = 'add_contact',
+    RemoveContact         = 'remove_contact',
+    SetCallPolicy         = 'set_call_policy',
+    GetPrivacy            = 'get_privacy',
+    Privacy               = 'privacy',
+    Hello                 = 'hello',
+    Welcome               = 'welcome',
+    Ack                   = 'ack',
+    ServerDraining        = 'server_draining',
+    RateLimited           = 'rate_limited',
+    Error                 = 'error',
+    Info                  = 'info'
+}
+
+// Platforms a push token can be registered for
+export enum PushPlatform {
+    Fcm  = 'fcm',
+    Apns = 'apns'
+}
+
+// Lifecycle of a one-to-one call; everything but ringing and answered is final
+export enum CallState {
+    Ringing   = 'ringing',
+    Answered  = 'answered',
+    Rejected  = 'rejected',  // Declined (reject/busy, or hangup before answering) by the callee
+    Cancelled = 'cancelled', // Given up by the caller before it was answered
+    Ended     = 'ended',     // Hung up after it was answered
+    Missed    = 'missed'     // Not answered in time, or nobody could be reached
+}
+
+// Presence of a user; online, away and busy can also be chosen by the user with set_presence
+export enum PresenceStatus {
+    Online  = 'online',
+    Away    = 'away',
+    Busy    = 'busy',    // Chosen, or in an answered call
+    Offline = 'offline'  // No device connected
+}
+
+// Who may call a user or send them message requests (blocked users never can)
+export enum CallPolicy {
+    Everyone = 'everyone',
+    Contacts = 'contacts', // Only users on the user's contact list
+    Nobody   = 'nobody'
+}
+
+export enum PushDeliveryStatus {
+    Delivered    = 'delivered',    // Accepted by the provider
+    Unregistered = 'unregistered', // Provider reports the token is no longer valid
+    Failed       = 'failed'        // Any other (possibly transient) failure
+}
+
+// Machine-readable error codes carried in ErrorPayload.code
+export enum ErrorCode {
+    MalformedMessage    = 'malformed_message',    // Not valid JSON
+    UnknownMessageType  = 'unknown_message_type',
+    InvalidMessage      = 'invalid_message',      // Failed schema validation
+    NotLoggedIn         = 'not_logged_in',
+    AlreadyLoggedIn     = 'already_logged_in',
+    AuthRequired        = 'auth_required',
+    TokenInvalid        = 'token_invalid',
+    TokenExpired        = 'token_expired',
+    RoomFull            = 'room_full',
+    RoomPasswordInvalid = 'room_password_invalid',
+    NotInRoom           = 'not_in_room',
+    MailboxFull         = 'mailbox_full',
+    UserOffline         = 'user_offline',
+    CallClaimed         = 'call_claimed',         // Another device of this user answered the call
+    UnknownCall         = 'unknown_call',         // No such call, or the sender does not take part in it
+    CallFinished        = 'call_finished',
+    InvalidCallState    = 'invalid_call_state',   // E.g. reject after the call was answered
+    SubscriptionLimit   = 'subscription_limit',   // Too many presence subscriptions on this connection
+    ResumeFailed        = 'resume_failed',        // Unknown or expired resume token; log in instead
+    ListFull            = 'list_full',            // Block or contact list limit reached
+    UnsupportedVersion  = 'unsupported_version',  // hello named no protocol version this server speaks
+    ServerDraining      = 'server_draining',      // The instance is shutting down and takes no logins; connect again
+    FeatureNotEnabled   = 'feature_not_enabled',  // The message belongs to a feature the client left out of hello
+    ServerError         = 'server_error'
 }
@@ -1,6 +1,11 @@
 import WebSocket from 'ws';
-import { WebSocketClient, SignalingMessage } from './types';
-import { logger } from './logger';
+import { WebSocketClient, SignalingMessage, MessageType } from './types';
+import { errorsTotal } from './metrics';
+import { bufferForResume } from './resume';
+import { correlateReply, correlateResponse } from './protocol';
+import { moduleLogger } from './logger';
+
+const logger = moduleLogger('ws');
 
 /**
  * Safely sends a JSON message to a single WebSocket client.
@@ -8,6 +13,9 @@ import { logger } from './logger';
  * @param message The SignalingMessage object to send.
  */
 export function sendWsMessage(ws: WebSocketClient, message: SignalingMessage): void {
+    message = correlateReply(ws, message); // Errors (and rate_limited) answering a client message name it under protocol 2
+    if (message.type === MessageType.Error) errorsTotal.inc(message.payload?.code);
+    if (bufferForResume(ws, message)) return; // Replayed if the device resumes its session
     if (ws.readyState === WebSocket.OPEN) {
         try {
             ws.send(JSON.stringify(message));
@@ -20,16 +28,24 @@ export function sendWsMessage(ws: WebSocketClient, message: SignalingMessage): v
 }
 
 /**
- * Broadcasts a message to all connected clients, optionally excluding the sender.
- * @param clients Map of currently connected clients (userId -> WebSocketClient).
+ * Sends a direct response to the client message being handled; under protocol 2 it carries that message's id as replyTo.
+ * @param ws The client that sent the message.
+ * @param message The response.
+ */
+export function sendReply(ws: WebSocketClient, message: SignalingMessage): void {
+    sendWsMessage(ws, correlateResponse(ws, message));
+}
+
+/**
+ * Broadcasts a message to a group of clients (e.g. the members of a room), optionally excluding the sender.
+ * @param recipients The clients to send to.
  * @param message The SignalingMessage object to broadcast.
  * @param senderWs The WebSocket client who sent the original message (optional, to exclude).
  */
-export function broadcast(clients: Map<string, WebSocketClient>, message: SignalingMessage, senderWs?: WebSocketClient): void {
-    logger.log({ level: 'info', message: `Broadcasting message type ${message.type} to ${clients.size} client(s)` });
-    clients.forEach((client) => {
-        if (client !== senderWs) { // Ensure we don't send back to sender unless intended
-            sendWsMessage(client, message);
-        }
+export function broadcast(recipients: Iterable<WebSocketClient>, message: SignalingMessage, senderWs?: WebSocketClient): void {
+    const targets = Array.from(recipients).filter(client => client !== senderWs); // Ensure we don't send back to sender unless intended
+    logger.log({ level: 'info', message: `Broadcasting message type ${message.type} to ${targets.length} client(s)` });
+    targets.forEach((client) => {
+        sendWsMessage(client, message);
     });
 }